@@ -0,0 +1,99 @@
+import { BadRequestException } from '@nestjs/common';
+import { inflateRawSync } from 'zlib';
+import { ExportService, ExportFormat } from './export.service';
+
+/** File name → content of every entry in a ZIP written by the export service */
+function unzipText(body: Buffer): Record<string, string> {
+    const files: Record<string, string> = {};
+    for (let offset = 0; body.readUInt32LE(offset) === 0x04034B50;) {
+        const compressedSize = body.readUInt32LE(offset + 18);
+        const nameLength = body.readUInt16LE(offset + 26);
+        const name = body.toString('utf-8', offset + 30, offset + 30 + nameLength);
+        const dataStart = offset + 30 + nameLength;
+        files[name] = inflateRawSync(body.subarray(dataStart, dataStart + compressedSize)).toString('utf-8');
+        offset = dataStart + compressedSize;
+    }
+    return files;
+}
+
+describe('ExportService', () => {
+    const service = new ExportService();
+
+    const sheets = [
+        { name: 'summary', rows: service.keyValueRows({ finalAmountUsd: 1010.5, cashFlows: { totalDepositsUsd: 0 } }) },
+        {
+            name: 'timeSeries',
+            rows: [
+                { date: '2026-01-01', totalValueUsd: 1000, note: 'deposit, "initial"' },
+                { date: '2026-01-02', totalValueUsd: 1000.27, cashFlowUsd: -200 },
+            ],
+        },
+    ];
+
+    it('TestCase 1: format query wins over Accept; unknown Accept falls back to JSON', () => {
+        expect(service.resolveFormat('XLSX', 'text/csv')).toBe(ExportFormat.XLSX);
+        expect(service.resolveFormat(undefined, 'text/csv, application/json;q=0.9')).toBe(ExportFormat.CSV);
+        expect(service.resolveFormat(undefined, 'application/x-ndjson')).toBe(ExportFormat.NDJSON);
+        expect(service.resolveFormat(undefined, '*/*')).toBe(ExportFormat.JSON);
+        expect(service.resolveFormat(undefined, 'text/html,application/xhtml+xml,*/*;q=0.8')).toBe(ExportFormat.JSON);
+        expect(() => service.resolveFormat('pdf')).toThrow(BadRequestException);
+    });
+
+    it('TestCase 2: CSV and NDJSON flatten nested fields and keep optional columns', () => {
+        const single = service.render(ExportFormat.CSV, [sheets[1]], 'backtest');
+        expect(single.fileName).toBe('backtest.csv');
+        expect(single.body.toString('utf-8').split('\r\n')).toEqual([
+            'date,totalValueUsd,note,cashFlowUsd',
+            '2026-01-01,1000,"deposit, ""initial""",',
+            '2026-01-02,1000.27,,-200',
+            '',
+        ]);
+
+        // Several tables → one CSV per table in a ZIP
+        const multi = service.render(ExportFormat.CSV, sheets, 'backtest');
+        expect(multi.contentType).toBe('application/zip');
+        expect(multi.fileName).toBe('backtest.zip');
+        expect(unzipText(multi.body)).toEqual({
+            'summary.csv': 'field,value\r\nfinalAmountUsd,1010.5\r\ncashFlows.totalDepositsUsd,0\r\n',
+            'timeSeries.csv': single.body.toString('utf-8'),
+        });
+
+        const ndjson = service.render(ExportFormat.NDJSON, sheets, 'backtest');
+        expect(ndjson.contentType).toBe('application/x-ndjson');
+        const lines = ndjson.body.toString('utf-8').trim().split('\n').map(l => JSON.parse(l));
+        expect(lines).toHaveLength(4);
+        expect(lines[3]).toEqual({ sheet: 'timeSeries', date: '2026-01-02', totalValueUsd: 1000.27, cashFlowUsd: -200 });
+    });
+
+    it('TestCase 3: XLSX is a ZIP package with one worksheet per sheet', () => {
+        const xlsx = service.render(ExportFormat.XLSX, sheets, 'backtest');
+        expect(xlsx.fileName).toBe('backtest.xlsx');
+        expect(xlsx.body.readUInt32LE(0)).toBe(0x04034B50);
+        // End-of-central-directory record lists every part
+        expect(xlsx.body.readUInt16LE(xlsx.body.length - 12)).toBe(6);
+        const text = xlsx.body.toString('latin1');
+        expect(text).toContain('xl/worksheets/sheet1.xml');
+        expect(text).toContain('xl/worksheets/sheet2.xml');
+    });
+
+    it('TestCase 4: Accept q-values decide between formats and q=0 excludes one', () => {
+        expect(service.resolveFormat(undefined, 'text/csv;q=0.1, application/json')).toBe(ExportFormat.JSON);
+        expect(service.resolveFormat(undefined, 'application/json;q=0.5, text/csv;q=0.8')).toBe(ExportFormat.CSV);
+        expect(service.resolveFormat(undefined, 'text/*, application/json;q=0.2')).toBe(ExportFormat.CSV);
+        expect(service.resolveFormat(undefined, 'text/csv;q=0, */*')).toBe(ExportFormat.JSON);
+        expect(service.resolveFormat(undefined, 'application/ndjson; q=0.9, application/json; q=0.4')).toBe(ExportFormat.NDJSON);
+        expect(service.resolveFormat(undefined, 'application/json-seq')).toBe(ExportFormat.JSON);
+    });
+
+    it('TestCase 5: text cells that start a formula are escaped in CSV and XLSX; numbers keep their sign', () => {
+        const risky = [{ name: 'breakdown', rows: [{ assetSymbol: '=HYPERLINK("http://x")', note: '@SUM(A1)', delta: -5, label: '-1+2' }] }];
+
+        const csv = service.render(ExportFormat.CSV, risky, 'backtest').body.toString('utf-8');
+        expect(csv.split('\r\n')[1]).toBe(`"'=HYPERLINK(""http://x"")",'@SUM(A1),-5,'-1+2`);
+
+        const xlsx = unzipText(service.render(ExportFormat.XLSX, risky, 'backtest').body)['xl/worksheets/sheet1.xml'];
+        expect(xlsx).toContain(`<t xml:space="preserve">'=HYPERLINK(&quot;http://x&quot;)</t>`);
+        expect(xlsx).toContain(`<t xml:space="preserve">'@SUM(A1)</t>`);
+        expect(xlsx).toContain('<v>-5</v>');
+    });
+});
@@ -0,0 +1,354 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { deflateRawSync } from 'zlib';
+
+export enum ExportFormat {
+    JSON = 'json',
+    CSV = 'csv',
+    NDJSON = 'ndjson',
+    XLSX = 'xlsx',
+}
+
+/** One table of an export — a CSV file, a group of NDJSON lines or an XLSX worksheet */
+export interface ExportSheet {
+    name: string;
+    rows: Record<string, any>[];
+}
+
+export interface RenderedExport {
+    contentType: string;
+    fileName: string;
+    body: Buffer;
+}
+
+const CONTENT_TYPES: Record<Exclude<ExportFormat, ExportFormat.JSON>, string> = {
+    [ExportFormat.CSV]: 'text/csv; charset=utf-8',
+    [ExportFormat.NDJSON]: 'application/x-ndjson',
+    [ExportFormat.XLSX]: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+/** CSV holds one table, so a multi-sheet CSV export is a ZIP with one file per sheet */
+const ZIP_CONTENT_TYPE = 'application/zip';
+
+// Accept header media types per format — on equal q-values the earlier format wins
+const ACCEPT_FORMATS: [ExportFormat, string[]][] = [
+    [ExportFormat.JSON, ['application/json']],
+    [ExportFormat.XLSX, ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet']],
+    [ExportFormat.NDJSON, ['application/x-ndjson', 'application/ndjson']],
+    [ExportFormat.CSV, ['text/csv']],
+];
+
+/**
+ * Renders API results as CSV / NDJSON / XLSX downloads.
+ * Nested objects are flattened into dot-separated columns, arrays are kept as JSON text.
+ * Text starting with `=`, `+`, `-` or `@` is prefixed with `'` so spreadsheets do not run it as a formula.
+ */
+@Injectable()
+export class ExportService {
+    /**
+     * `format` query wins over the Accept header. Otherwise the format with the highest
+     * q-value in Accept is used (RFC 9110 media ranges, most specific range wins); ties and
+     * anything unrecognised (browsers send `*\/*`) fall back to JSON.
+     */
+    resolveFormat(format?: string, accept?: string): ExportFormat {
+        if (format) {
+            const normalized = format.toLowerCase() as ExportFormat;
+            if (!Object.values(ExportFormat).includes(normalized)) {
+                throw new BadRequestException(
+                    `Unsupported format '${format}'. Use one of: ${Object.values(ExportFormat).join(', ')}`,
+                );
+            }
+            return normalized;
+        }
+        const ranges = parseAccept(accept);
+        let best = ExportFormat.JSON;
+        let bestQ = 0;
+        for (const [exportFormat, mediaTypes] of ACCEPT_FORMATS) {
+            const q = Math.max(...mediaTypes.map(mediaType => acceptQuality(ranges, mediaType)));
+            if (q > bestQ) {
+                best = exportFormat;
+                bestQ = q;
+            }
+        }
+        return best;
+    }
+
+    /** `{ a: { b: 1 } }` → `[{ field: 'a.b', value: 1 }]` — for single-object sections like a summary */
+    keyValueRows(obj: Record<string, any>): Record<string, any>[] {
+        return Object.entries(this.flatten(obj)).map(([field, value]) => ({ field, value }));
+    }
+
+    render(format: Exclude<ExportFormat, ExportFormat.JSON>, sheets: ExportSheet[], baseName: string): RenderedExport {
+        const flatSheets = sheets.map(sheet => ({ name: sheet.name, rows: sheet.rows.map(row => this.flatten(row)) }));
+        if (format === ExportFormat.CSV && flatSheets.length > 1) {
+            const names = uniqueSheetNames(flatSheets.map(s => s.name));
+            const body = zip(flatSheets.map((sheet, i) => ({ path: `${names[i]}.csv`, data: Buffer.from(this.toCsv(sheet), 'utf-8') })));
+            return { contentType: ZIP_CONTENT_TYPE, fileName: `${baseName}.zip`, body };
+        }
+        const body = format === ExportFormat.CSV
+            ? Buffer.from(this.toCsv(flatSheets[0] ?? { name: baseName, rows: [] }), 'utf-8')
+            : format === ExportFormat.NDJSON
+                ? Buffer.from(this.toNdjson(flatSheets), 'utf-8')
+                : buildXlsx(flatSheets);
+        return { contentType: CONTENT_TYPES[format], fileName: `${baseName}.${format}`, body };
+    }
+
+    // ─── Formats ─────────────────────────────────────────────────────────────
+
+    /** Header row, then one line per row */
+    private toCsv(sheet: ExportSheet): string {
+        const columns = columnsOf(sheet.rows);
+        const lines = [columns.map(csvCell).join(',')];
+        for (const row of sheet.rows) lines.push(columns.map(c => csvCell(row[c])).join(','));
+        return lines.join('\r\n') + '\r\n';
+    }
+
+    /** One JSON object per line, tagged with the sheet it belongs to */
+    private toNdjson(sheets: ExportSheet[]): string {
+        return sheets
+            .flatMap(sheet => sheet.rows.map(row => JSON.stringify({ sheet: sheet.name, ...row })))
+            .join('\n') + '\n';
+    }
+
+    // ─── Helpers ─────────────────────────────────────────────────────────────
+
+    private flatten(obj: Record<string, any>, prefix = '', out: Record<string, any> = {}): Record<string, any> {
+        for (const [key, value] of Object.entries(obj)) {
+            const column = prefix ? `${prefix}.${key}` : key;
+            if (value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)) {
+                this.flatten(value, column, out);
+            } else {
+                out[column] = Array.isArray(value) ? JSON.stringify(value) : value;
+            }
+        }
+        return out;
+    }
+}
+
+interface MediaRange {
+    type: string;
+    subtype: string;
+    q: number;
+}
+
+/** `text/csv;q=0.5, *\/*;q=0.1` → media ranges; a missing or malformed q counts as 1 */
+function parseAccept(accept?: string): MediaRange[] {
+    if (!accept) return [];
+    return accept.split(',').flatMap((part) => {
+        const [range, ...params] = part.split(';').map(p => p.trim().toLowerCase());
+        const [type, subtype] = range.split('/');
+        if (!type || !subtype) return [];
+        const qParam = params.find(p => p.startsWith('q='));
+        const q = qParam ? parseFloat(qParam.slice(2)) : 1;
+        return [{ type, subtype, q: Number.isFinite(q) ? Math.min(1, Math.max(0, q)) : 1 }];
+    });
+}
+
+/** q-value of `mediaType` under the most specific matching range (exact > type/* > *\/*); 0 if none */
+function acceptQuality(ranges: MediaRange[], mediaType: string): number {
+    const [type, subtype] = mediaType.split('/');
+    let specificity = -1;
+    let q = 0;
+    for (const range of ranges) {
+        const rank = range.type === type && range.subtype === subtype ? 2
+            : range.type === type && range.subtype === '*' ? 1
+                : range.type === '*' && range.subtype === '*' ? 0
+                    : -1;
+        if (rank > specificity) {
+            specificity = rank;
+            q = range.q;
+        }
+    }
+    return q;
+}
+
+/** Union of keys in first-seen order — rows may carry optional fields */
+function columnsOf(rows: Record<string, any>[]): string[] {
+    const columns = new Set<string>();
+    for (const row of rows) Object.keys(row).forEach(k => columns.add(k));
+    return [...columns];
+}
+
+/** Formula injection guard (OWASP CSV injection) — numbers keep their sign, only text is escaped */
+function neutralizeFormula(text: string): string {
+    return /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+}
+
+function csvCell(value: any): string {
+    if (value === null || value === undefined) return '';
+    const text = value instanceof Date
+        ? value.toISOString()
+        : typeof value === 'string' ? neutralizeFormula(value) : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// ─── Minimal XLSX writer (SpreadsheetML in a deflated ZIP, inline strings) ──
+
+function buildXlsx(sheets: ExportSheet[]): Buffer {
+    const names = uniqueSheetNames(sheets.map(s => s.name));
+    const files: { path: string; content: string }[] = [
+        {
+            path: '[Content_Types].xml',
+            content: xml(
+                '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+                '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+                '<Default Extension="xml" ContentType="application/xml"/>' +
+                '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+                names.map((_, i) =>
+                    `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ` +
+                    'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>').join('') +
+                '</Types>',
+            ),
+        },
+        {
+            path: '_rels/.rels',
+            content: xml(
+                '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+                '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+                '</Relationships>',
+            ),
+        },
+        {
+            path: 'xl/workbook.xml',
+            content: xml(
+                '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+                'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+                names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('') +
+                '</sheets></workbook>',
+            ),
+        },
+        {
+            path: 'xl/_rels/workbook.xml.rels',
+            content: xml(
+                '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+                names.map((_, i) =>
+                    `<Relationship Id="rId${i + 1}" ` +
+                    'Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" ' +
+                    `Target="worksheets/sheet${i + 1}.xml"/>`).join('') +
+                '</Relationships>',
+            ),
+        },
+        ...sheets.map((sheet, i) => ({ path: `xl/worksheets/sheet${i + 1}.xml`, content: worksheetXml(sheet.rows) })),
+    ];
+    return zip(files.map(f => ({ path: f.path, data: Buffer.from(f.content, 'utf-8') })));
+}
+
+function worksheetXml(rows: Record<string, any>[]): string {
+    const columns = columnsOf(rows);
+    const rowXml = (values: any[], r: number) =>
+        `<row r="${r}">` + values.map((value, c) => cellXml(`${columnLetter(c)}${r}`, value)).join('') + '</row>';
+    const body = [rowXml(columns, 1), ...rows.map((row, i) => rowXml(columns.map(c => row[c]), i + 2))].join('');
+    return xml(`<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${body}</sheetData></worksheet>`);
+}
+
+function cellXml(ref: string, value: any): string {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'number' && Number.isFinite(value)) return `<c r="${ref}"><v>${value}</v></c>`;
+    if (typeof value === 'boolean') return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+    const text = value instanceof Date ? value.toISOString() : neutralizeFormula(String(value));
+    return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+}
+
+/** 0 → A, 25 → Z, 26 → AA */
+function columnLetter(index: number): string {
+    let letters = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+    }
+    return letters;
+}
+
+/** Excel sheet names: max 31 chars, no []:*?/\ and unique (case-insensitive) */
+function uniqueSheetNames(names: string[]): string[] {
+    const used = new Set<string>();
+    return names.map((raw, i) => {
+        const base = (raw.replace(/[[\]:*?/\\]/g, '_').slice(0, 31) || `Sheet${i + 1}`);
+        let name = base;
+        for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base.slice(0, 28)}_${n}`;
+        used.add(name.toLowerCase());
+        return name;
+    });
+}
+
+function xml(body: string): string {
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${body}`;
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        // Control characters are not allowed in XML 1.0
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+// ─── ZIP container (deflate, no ZIP64 — exports stay far below 4 GB) ────────
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+function crc32(data: Buffer): number {
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+function zip(entries: { path: string; data: Buffer }[]): Buffer {
+    const localParts: Buffer[] = [];
+    const centralParts: Buffer[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = Buffer.from(entry.path, 'utf-8');
+        const compressed = deflateRawSync(entry.data);
+        const crc = crc32(entry.data);
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034B50, 0);   // local file header signature
+        local.writeUInt16LE(20, 4);           // version needed (2.0 — deflate)
+        local.writeUInt16LE(0x0800, 6);       // flags: UTF-8 names
+        local.writeUInt16LE(8, 8);            // method: deflate
+        local.writeUInt16LE(0, 10);           // mod time
+        local.writeUInt16LE(0x21, 12);        // mod date: 1980-01-01
+        local.writeUInt32LE(crc, 14);
+        local.writeUInt32LE(compressed.length, 18);
+        local.writeUInt32LE(entry.data.length, 22);
+        local.writeUInt16LE(name.length, 26);
+        local.writeUInt16LE(0, 28);           // extra field length
+        localParts.push(local, name, compressed);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014B50, 0); // central directory signature
+        central.writeUInt16LE(20, 4);         // version made by
+        central.writeUInt16LE(20, 6);         // version needed
+        central.writeUInt16LE(0x0800, 8);
+        central.writeUInt16LE(8, 10);
+        central.writeUInt16LE(0, 12);
+        central.writeUInt16LE(0x21, 14);
+        central.writeUInt32LE(crc, 16);
+        central.writeUInt32LE(compressed.length, 20);
+        central.writeUInt32LE(entry.data.length, 24);
+        central.writeUInt16LE(name.length, 28);
+        // extra / comment length, disk number, internal / external attributes stay 0
+        central.writeUInt32LE(offset, 42);
+        centralParts.push(central, name);
+
+        offset += local.length + name.length + compressed.length;
+    }
+
+    const centralDir = Buffer.concat(centralParts);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054B50, 0);         // end of central directory signature
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(centralDir.length, 12);
+    end.writeUInt32LE(offset, 16);
+    return Buffer.concat([...localParts, centralDir, end]);
+}
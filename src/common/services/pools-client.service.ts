@@ -26,6 +26,8 @@ export interface PoolHistoryRecord {
     supplyApy: number;     // primary APY field from history endpoint
     rewardApy?: number;
     totalApy?: number;
+    tvlUsd?: number;       // pool TVL at dataTimestamp, when the indexer recorded it
+    borrowApy?: number;    // lending markets: variable borrow APY, when the indexer recorded it
     dataTimestamp: string; // ISO string e.g. "2026-02-20T04:04:45.526Z"
 }
 
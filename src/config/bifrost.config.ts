@@ -5,6 +5,12 @@ export interface VTokenConfig {
     baseCurrencyId: Record<string, any>;
     decimals: number;
     coingeckoId: string;
+    /** Days from redeem request until the base token is paid out */
+    unbondingDays: number;
+    mintFeePercent: number;
+    redeemFeePercent: number;
+    /** Typical discount to the redemption rate when selling on a DEX instead of redeeming */
+    dexDiscountPercent: number;
 }
 
 export const BIFROST_CONFIG = {
@@ -30,6 +36,10 @@ export const BIFROST_CONFIG = {
             baseCurrencyId: { Token2: 0 },
             decimals: 10,
             coingeckoId: 'polkadot',
+            unbondingDays: 28,
+            mintFeePercent: 0.1,
+            redeemFeePercent: 0.1,
+            dexDiscountPercent: 0.5,
         } as VTokenConfig,
         vKSM: {
             symbol: 'vKSM',
@@ -38,6 +48,10 @@ export const BIFROST_CONFIG = {
             baseCurrencyId: { Token: 'KSM' },
             decimals: 12,
             coingeckoId: 'kusama',
+            unbondingDays: 7,
+            mintFeePercent: 0.1,
+            redeemFeePercent: 0.1,
+            dexDiscountPercent: 1,
         } as VTokenConfig,
         vGLMR: {
             symbol: 'vGLMR',
@@ -46,6 +60,10 @@ export const BIFROST_CONFIG = {
             baseCurrencyId: { Token2: 1 },
             decimals: 18,
             coingeckoId: 'moonbeam',
+            unbondingDays: 7,
+            mintFeePercent: 0.1,
+            redeemFeePercent: 0.1,
+            dexDiscountPercent: 1.5,
         } as VTokenConfig,
         vASTR: {
             symbol: 'vASTR',
@@ -54,6 +72,10 @@ export const BIFROST_CONFIG = {
             baseCurrencyId: { Token2: 3 },
             decimals: 18,
             coingeckoId: 'astar',
+            unbondingDays: 10,
+            mintFeePercent: 0.1,
+            redeemFeePercent: 0.1,
+            dexDiscountPercent: 1.5,
         } as VTokenConfig,
         vBNC: {
             symbol: 'vBNC',
@@ -62,6 +84,10 @@ export const BIFROST_CONFIG = {
             baseCurrencyId: { Native: 'BNC' },
             decimals: 12,
             coingeckoId: 'bifrost-native-coin',
+            unbondingDays: 28,
+            mintFeePercent: 0.1,
+            redeemFeePercent: 0.1,
+            dexDiscountPercent: 2,
         } as VTokenConfig,
     } as Record<string, VTokenConfig>,
 
@@ -77,6 +103,25 @@ export const PRICE_CONFIG = {
     COINGECKO_BASE_URL: 'https://api.coingecko.com/api/v3',
     DEFILLAMA_BASE_URL: 'https://coins.llama.fi',
     PRICE_CACHE_TTL_MS: 5 * 60 * 1000,
+
+    // ─── Token symbol → Coingecko ID (TokenPrice.symbol) ───
+    COINGECKO_IDS: {
+        DOT: 'polkadot',
+        vDOT: 'voucher-dot',
+        aDOT: 'polkadot',
+        KSM: 'kusama',
+        vKSM: 'voucher-ksm',
+        GLMR: 'moonbeam',
+        vGLMR: 'voucher-glmr',
+        ASTR: 'astar',
+        vASTR: 'voucher-astr',
+        BNC: 'bifrost-native-coin',
+        HDX: 'hydradx',
+        ETH: 'ethereum',
+        WETH: 'ethereum',
+        USDT: 'tether',
+        USDC: 'usd-coin',
+    } as Record<string, string>,
 };
 
 export const DB_CONFIG = {
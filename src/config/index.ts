@@ -1,3 +1,4 @@
 // Re-export all config
 export { BIFROST_CONFIG, PRICE_CONFIG, DB_CONFIG } from './bifrost.config';
+export { XCM_CONFIG } from './xcm.config';
 export { default as configuration } from './configuration';
@@ -0,0 +1,42 @@
+export interface XcmRoute {
+    from: string;
+    to: string;
+    /** Delivery + execution fee in USD */
+    feeUsd: number;
+    /** Expected time until the funds are usable on the destination chain */
+    transferMinutes: number;
+}
+
+export const XCM_CONFIG = {
+    // ─── Networks ───
+    NETWORKS: ['bifrost', 'hydration', 'moonbeam', 'asset-hub'],
+
+    // Reserve chain used when two networks have no direct channel
+    HUB_NETWORK: 'asset-hub',
+
+    // ─── Protocol → network it is deployed on ───
+    PROTOCOL_NETWORKS: {
+        bifrost: 'bifrost',
+        hydration: 'hydration',
+        moonwell: 'moonbeam',
+        stellaswap: 'moonbeam',
+        beamswap: 'moonbeam',
+    } as Record<string, string>,
+
+    // ─── Direct routes (one entry per direction) ───
+    ROUTES: [
+        { from: 'bifrost', to: 'hydration', feeUsd: 0.05, transferMinutes: 2 },
+        { from: 'hydration', to: 'bifrost', feeUsd: 0.08, transferMinutes: 2 },
+        { from: 'bifrost', to: 'moonbeam', feeUsd: 0.12, transferMinutes: 3 },
+        { from: 'moonbeam', to: 'bifrost', feeUsd: 0.20, transferMinutes: 3 },
+        { from: 'bifrost', to: 'asset-hub', feeUsd: 0.04, transferMinutes: 2 },
+        { from: 'asset-hub', to: 'bifrost', feeUsd: 0.03, transferMinutes: 2 },
+        { from: 'hydration', to: 'asset-hub', feeUsd: 0.04, transferMinutes: 2 },
+        { from: 'asset-hub', to: 'hydration', feeUsd: 0.03, transferMinutes: 2 },
+        { from: 'moonbeam', to: 'asset-hub', feeUsd: 0.15, transferMinutes: 4 },
+        { from: 'asset-hub', to: 'moonbeam', feeUsd: 0.06, transferMinutes: 4 },
+    ] as XcmRoute[],
+
+    // Protocols / networks without a known route
+    FALLBACK_ROUTE: { feeUsd: 0.5, transferMinutes: 30 },
+};
@@ -58,6 +58,9 @@ export class BacktestRun {
     @Column()
     timeSeries: Record<string, any>[]; // max 500 records cho UI chart
 
+    @Column()
+    ledger: Record<string, any>[]; // harvest / trade / fee / slippage / IL events, in order
+
     @Column()
     errorMessage: string;
 
@@ -67,6 +70,12 @@ export class BacktestRun {
     @CreateDateColumn()
     @Index()
     createdAt: Date;
+
+    @Column()
+    startedAt: Date;
+
+    @Column()
+    completedAt: Date;
 }
 
 // ─── 7. Activity Log ───
@@ -130,3 +139,30 @@ export class StrategyCache {
     @UpdateDateColumn()
     updatedAt: Date;
 }
+
+// ─── 9. Stress Scenario ───
+@Entity('stress_scenarios')
+export class StressScenario {
+    @ObjectIdColumn()
+    id: ObjectId;
+
+    @Column()
+    @Index({ unique: true })
+    scenarioId: string;
+
+    @Column()
+    name: string;
+
+    @Column()
+    description: string;
+
+    @Column()
+    shocks: Record<string, any>[]; // StressShock[] — depeg / protocol_loss / reward_apy_zero / stablecoin_depeg
+
+    @CreateDateColumn()
+    @Index()
+    createdAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
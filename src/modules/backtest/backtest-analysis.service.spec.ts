@@ -0,0 +1,235 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { BacktestAnalysisService, SweepParameters, SweepRankMetric } from './backtest-analysis.service';
+import { BacktestService, PoolType } from './backtest.service';
+import { PoolsClientService, PoolHistoryRecord } from '../../common/services/pools-client.service';
+import { PriceIndexerService } from '../price-indexer/price-indexer.service';
+
+describe('BacktestAnalysisService', () => {
+    let service: BacktestAnalysisService;
+    let fetchPoolHistory: jest.Mock;
+
+    const mockTokens = [
+        { symbol: 'vDOT', protocols: ['bifrost'], poolTypes: ['vstaking'] },
+        { symbol: 'vKSM', protocols: ['bifrost'], poolTypes: ['vstaking'] },
+    ];
+
+    const makeHistory = (assetSymbol: string, supplyApy: number): PoolHistoryRecord[] =>
+        Array.from({ length: 31 }, (_, i) => ({
+            protocol: 'bifrost',
+            network: 'bifrost',
+            poolType: 'vstaking',
+            assetSymbol,
+            supplyApy,
+            rewardApy: 0,
+            totalApy: supplyApy,
+            dataTimestamp: `2026-01-${String(i + 1).padStart(2, '0')}T00:00:00.000Z`,
+        }));
+
+    const mockHistory = [...makeHistory('vDOT', 10), ...makeHistory('vKSM', 200)];
+
+    const baseBacktest = {
+        initialAmountUsd: 10000,
+        from: '2026-01-01',
+        to: '2026-01-31',
+        allocations: [
+            { protocol: 'bifrost', assetSymbol: 'vDOT', percentage: 50, poolType: PoolType.VSTAKING },
+            { protocol: 'bifrost', assetSymbol: 'vKSM', percentage: 50, poolType: PoolType.VSTAKING },
+        ],
+    };
+
+    beforeEach(async () => {
+        fetchPoolHistory = jest.fn().mockResolvedValue({ count: mockHistory.length, data: mockHistory });
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                BacktestAnalysisService,
+                BacktestService,
+                {
+                    provide: PoolsClientService,
+                    useValue: {
+                        fetchTokens: jest.fn().mockResolvedValue({ data: mockTokens }),
+                        fetchPoolHistory,
+                        fetchPools: jest.fn().mockResolvedValue({ count: 0, filter: {}, data: [] }),
+                    },
+                },
+                { provide: PriceIndexerService, useValue: {} },
+            ],
+        }).compile();
+
+        service = module.get<BacktestAnalysisService>(BacktestAnalysisService);
+    });
+
+    describe('runSweep', () => {
+        it('TestCase 1: runs every combination on a single history fetch and ranks them', async () => {
+            const result = await service.runSweep({
+                backtest: baseBacktest,
+                parameters: {
+                    rebalanceIntervalDays: { values: [0, 7] },
+                    slippageTolerancePercent: { min: 0, max: 1, step: 0.5 },
+                },
+                rankBy: SweepRankMetric.FINAL_AMOUNT,
+            });
+
+            expect(fetchPoolHistory).toHaveBeenCalledTimes(1);
+            expect(result.combinations).toBe(6);
+            expect(result.results.map(r => r.rank)).toEqual([1, 2, 3, 4, 5, 6]);
+
+            // No rebalancing keeps the 200% APY leg overweight, no slippage keeps every dollar
+            expect(result.best.parameters).toEqual({
+                compoundFrequencyDays: 7,
+                rebalanceIntervalDays: 0,
+                slippageTolerancePercent: 0,
+            });
+            const finals = result.results.map(r => r.finalAmountUsd);
+            expect([...finals].sort((a, b) => b - a)).toEqual(finals);
+        });
+
+        it('TestCase 2: rejects grids above the combination cap', async () => {
+            await expect(service.runSweep({
+                backtest: baseBacktest,
+                parameters: {
+                    compoundFrequencyDays: { min: 1, max: 30 },
+                    rebalanceIntervalDays: { min: 0, max: 30 },
+                },
+            })).rejects.toThrow(BadRequestException);
+            expect(fetchPoolHistory).not.toHaveBeenCalled();
+        });
+
+        it('TestCase 3: rejects swept values outside the limits of a single backtest', async () => {
+            const sweep = (parameters: SweepParameters) => service.runSweep({ backtest: baseBacktest, parameters });
+
+            await expect(sweep({ slippageTolerancePercent: { min: 4, max: 6 } })).rejects.toThrow('<= 5');
+            await expect(sweep({ compoundFrequencyDays: { values: [0, 7] } })).rejects.toThrow('>= 1');
+            await expect(sweep({ compoundFrequencyDays: { min: 1, max: 2, step: 0.5 } })).rejects.toThrow('an integer');
+            await expect(sweep({ rebalanceIntervalDays: { values: [-7, 7] } })).rejects.toThrow('>= 0');
+            expect(fetchPoolHistory).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('runMonteCarlo', () => {
+        it('TestCase 4: same seed reproduces the same bands; flat APY history collapses them onto the historical path', async () => {
+            const dto = { backtest: baseBacktest, paths: 50, blockSizeDays: 5, seed: 42 };
+            const first = await service.runMonteCarlo(dto);
+            const second = await service.runMonteCarlo(dto);
+
+            expect(second.bands).toEqual(first.bands);
+            expect(first.seed).toBe(42);
+            expect(first.bands[0].date).toBe('2026-01-01');
+            expect(first.bands[first.bands.length - 1].date).toBe('2026-01-31');
+            expect(first.finalAmountUsd.p5).toBeCloseTo(first.historical.finalAmountUsd, 2);
+            expect(first.finalAmountUsd.p95).toBeCloseTo(first.historical.finalAmountUsd, 2);
+            expect(first.probabilityOfLossPercent).toBe(0);
+        });
+
+        it('TestCase 5: a withdrawal that takes the balance below the initial amount is not a loss', async () => {
+            const result = await service.runMonteCarlo({
+                backtest: { ...baseBacktest, cashFlows: [{ date: '2026-01-10', amountUsd: -5000 }] },
+                paths: 20,
+                seed: 7,
+            });
+
+            expect(result.finalAmountUsd.p95).toBeLessThan(baseBacktest.initialAmountUsd);
+            expect(result.probabilityOfLossPercent).toBe(0);
+        });
+    });
+
+    describe('runRolling', () => {
+        it('TestCase 6: slices every window out of one history fetch', async () => {
+            const result = await service.runRolling({ backtest: baseBacktest, windowDays: 10, stepDays: 5 });
+
+            expect(fetchPoolHistory).toHaveBeenCalledTimes(1);
+            expect(result.windows.map(w => [w.from, w.to])).toEqual([
+                ['2026-01-01', '2026-01-11'],
+                ['2026-01-06', '2026-01-16'],
+                ['2026-01-11', '2026-01-21'],
+                ['2026-01-16', '2026-01-26'],
+                ['2026-01-21', '2026-01-31'],
+            ]);
+            expect(result.positiveWindowsPercent).toBe(100);
+            expect(result.distribution.annualizedApyPercent.min).toBeGreaterThan(0);
+        });
+
+        it('TestCase 7: walk-forward picks parameters in-sample before each window', async () => {
+            const result = await service.runRolling({
+                backtest: baseBacktest,
+                windowDays: 10,
+                stepDays: 10,
+                walkForward: {
+                    trainDays: 10,
+                    parameters: { rebalanceIntervalDays: { values: [0, 2] } },
+                    rankBy: SweepRankMetric.FINAL_AMOUNT,
+                },
+            });
+
+            expect(result.windowCount).toBe(2);
+            expect(result.windows[0].inSample).toMatchObject({ from: '2026-01-01', to: '2026-01-10' });
+            expect(result.windows[0].from).toBe('2026-01-11');
+            for (const w of result.windows) expect(w.parameters.rebalanceIntervalDays).toBe(0);
+        });
+
+        it('TestCase 8: clips cash flows to each window and keeps recurring ones on schedule', async () => {
+            const simulate = jest.spyOn(BacktestService.prototype, 'simulate');
+            const result = await service.runRolling({
+                backtest: {
+                    ...baseBacktest,
+                    cashFlows: [
+                        { date: '2026-01-01', amountUsd: 1000, repeatEveryDays: 7 },
+                        { date: '2026-01-25', amountUsd: -500 },
+                    ],
+                },
+                windowDays: 10,
+                stepDays: 10,
+                walkForward: {
+                    trainDays: 10,
+                    parameters: { rebalanceIntervalDays: { values: [0, 2] } },
+                },
+            });
+
+            expect(result.windows.map(w => [w.from, w.to])).toEqual([
+                ['2026-01-11', '2026-01-21'],
+                ['2026-01-21', '2026-01-31'],
+            ]);
+            const flowsByRange = new Map(simulate.mock.calls.map(([dto]) => [`${dto.from}..${dto.to}`, dto.cashFlows]));
+            expect(flowsByRange.get('2026-01-01..2026-01-10')).toEqual([
+                { date: '2026-01-01', amountUsd: 1000, repeatEveryDays: 7 },
+            ]);
+            expect(flowsByRange.get('2026-01-11..2026-01-21')).toEqual([
+                { date: '2026-01-15', amountUsd: 1000, repeatEveryDays: 7 },
+            ]);
+            expect(flowsByRange.get('2026-01-21..2026-01-31')).toEqual([
+                { date: '2026-01-22', amountUsd: 1000, repeatEveryDays: 7 },
+                { date: '2026-01-25', amountUsd: -500 },
+            ]);
+            simulate.mockRestore();
+        });
+    });
+
+    describe('runCompare', () => {
+        it('TestCase 9: runs every strategy on one history snapshot with aligned series', async () => {
+            const { allocations, ...settings } = baseBacktest;
+            const result = await service.runCompare({
+                settings,
+                strategies: [
+                    { name: 'Balanced', allocations },
+                    { name: 'vDOT only', allocations: [{ ...allocations[0], percentage: 100 }] },
+                ],
+            });
+
+            expect(fetchPoolHistory).toHaveBeenCalledTimes(1);
+            expect(result.metrics.map(m => m.name)).toEqual(['Balanced', 'vDOT only']);
+            expect(result.metrics[0].finalAmountUsd).toBeGreaterThan(result.metrics[1].finalAmountUsd);
+            expect(result.timeSeries).toHaveLength(31);
+            expect(Object.keys(result.timeSeries[30].values)).toEqual(['Balanced', 'vDOT only']);
+            expect(result.correlations).toHaveLength(1);
+        });
+
+        it('TestCase 10: rejects duplicate strategy names', async () => {
+            const { allocations, ...settings } = baseBacktest;
+            await expect(service.runCompare({
+                settings,
+                strategies: [{ name: 'A', allocations }, { name: 'A', allocations }],
+            })).rejects.toThrow(BadRequestException);
+        });
+    });
+});
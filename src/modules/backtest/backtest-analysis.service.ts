@@ -0,0 +1,573 @@
+import { Injectable, Logger, BadRequestException, HttpException } from '@nestjs/common';
+import { BacktestService, BacktestContext, BacktestAllocation, CashFlow, RunBacktestDto, percentile, createRng } from './backtest.service';
+
+// ─── DTOs ───────────────────────────────────────────────────────────────────
+
+/** Either an explicit list of values or an inclusive min..max range with a step */
+export interface SweepRange {
+    values?: number[];
+    min?: number;
+    max?: number;
+    step?: number;
+}
+
+export interface SweepParameters {
+    compoundFrequencyDays?: SweepRange;
+    rebalanceIntervalDays?: SweepRange;
+    slippageTolerancePercent?: SweepRange;
+}
+
+export type SweepParameterName = keyof SweepParameters;
+
+export enum SweepRankMetric {
+    ANNUALIZED_APY = 'annualizedApyPercent',
+    SHARPE = 'sharpeRatio',
+    MAX_DRAWDOWN = 'maxDrawdownPercent',
+    FINAL_AMOUNT = 'finalAmountUsd',
+    TOTAL_RETURN = 'totalReturnPercent',
+}
+
+export interface RunSweepDto {
+    backtest: RunBacktestDto;
+    parameters: SweepParameters;
+    rankBy?: SweepRankMetric;
+}
+
+export interface RunMonteCarloDto {
+    backtest: RunBacktestDto;
+    paths?: number;          // number of simulated paths (default: 500)
+    blockSizeDays?: number;  // bootstrap block length (default: 7)
+    seed?: number;           // PRNG seed — same seed + inputs = same bands
+}
+
+export interface RunRollingDto {
+    /** `from`/`to` bound the whole study; each window re-simulates a slice of it */
+    backtest: RunBacktestDto;
+    windowDays?: number;     // window length (default: 90)
+    stepDays?: number;       // distance between window starts (default: 7)
+    /** Walk-forward: pick parameters on the preceding `trainDays`, then run them on the window */
+    walkForward?: {
+        trainDays: number;
+        parameters: SweepParameters;
+        rankBy?: SweepRankMetric;
+    };
+}
+
+export interface CompareStrategy {
+    name: string;
+    allocations: BacktestAllocation[];
+}
+
+export interface RunCompareDto {
+    /** Settings shared by every strategy (capital, dates, costs, IL, rebalancing) */
+    settings: Omit<RunBacktestDto, 'allocations' | 'phases' | 'rotation'>;
+    strategies: CompareStrategy[];
+}
+
+export interface PercentileBand {
+    p5: number;
+    p25: number;
+    p50: number;
+    p75: number;
+    p95: number;
+}
+
+// ─── Limits ──────────────────────────────────────────────────────────────────
+
+const MAX_VALUES_PER_PARAMETER = 50;
+const MAX_SWEEP_COMBINATIONS = 500;
+const MAX_MONTE_CARLO_PATHS = 2000;
+const MAX_BAND_POINTS = 500;
+const MAX_ROLLING_WINDOWS = 400;
+const MIN_COMPARE_STRATEGIES = 2;
+const MAX_COMPARE_STRATEGIES = 10;
+/** Upper bound on simulate() calls in one walk-forward (windows × grid size) */
+const MAX_WALK_FORWARD_SIMULATIONS = 5000;
+/** Same bounds RunBacktestDto puts on each parameter, applied to every expanded sweep value */
+const SWEEP_PARAMETER_LIMITS: Record<SweepParameterName, { min: number; max?: number; integer?: boolean }> = {
+    compoundFrequencyDays: { min: 1, integer: true },
+    rebalanceIntervalDays: { min: 0 },
+    slippageTolerancePercent: { min: 0, max: 5 },
+};
+
+// ─── Helpers (module-level) ───────────────────────────────────────────────────
+
+function percentileBand(values: number[], decimals = 4): PercentileBand {
+    const sorted = [...values].sort((a, b) => a - b);
+    const at = (p: number) => parseFloat(percentile(sorted, p).toFixed(decimals));
+    return { p5: at(5), p25: at(25), p50: at(50), p75: at(75), p95: at(95) };
+}
+
+/** Evenly spaced indices into a series of `length` points, always keeping the last one */
+function sampleIndices(length: number, maxPoints: number): number[] {
+    const step = Math.max(1, Math.ceil(length / maxPoints));
+    const indices: number[] = [];
+    for (let k = 0; k < length; k += step) indices.push(k);
+    if (indices[indices.length - 1] !== length - 1) indices.push(length - 1);
+    return indices;
+}
+
+/** Pearson correlation; null when either series is flat */
+function correlation(x: number[], y: number[]): number | null {
+    const n = Math.min(x.length, y.length);
+    if (n < 2) return null;
+    const mx = x.slice(0, n).reduce((s, v) => s + v, 0) / n;
+    const my = y.slice(0, n).reduce((s, v) => s + v, 0) / n;
+    let sxy = 0, sxx = 0, syy = 0;
+    for (let i = 0; i < n; i++) {
+        sxy += (x[i] - mx) * (y[i] - my);
+        sxx += (x[i] - mx) ** 2;
+        syy += (y[i] - my) ** 2;
+    }
+    // Below this a series is a straight line (constant daily return) and correlation is undefined
+    if (sxx < 1e-18 || syy < 1e-18) return null;
+    return sxy / Math.sqrt(sxx * syy);
+}
+
+/**
+ * The part of `cashFlows` that lands inside [from, to]. A recurring flow that started earlier
+ * is moved to its first occurrence in the window, so every window sees the same schedule.
+ */
+function cashFlowsWithin(cashFlows: CashFlow[] | undefined, from: string, to: string): CashFlow[] {
+    const dayMs = 24 * 3600 * 1000;
+    const windowed: CashFlow[] = [];
+    for (const cf of cashFlows ?? []) {
+        const until = cf.until && cf.until.slice(0, 10) < to ? cf.until.slice(0, 10) : to;
+        let start = cf.date.slice(0, 10);
+        if (start < from && cf.repeatEveryDays) {
+            const behind = Math.round((Date.parse(from) - Date.parse(start)) / dayMs);
+            const shift = Math.ceil(behind / cf.repeatEveryDays) * cf.repeatEveryDays;
+            start = new Date(Date.parse(start) + shift * dayMs).toISOString().slice(0, 10);
+        }
+        if (start < from || start > until) continue;
+        windowed.push({ ...cf, date: start });
+    }
+    return windowed;
+}
+
+/** Percentile band plus mean / min / max */
+function distribution(values: number[]) {
+    const mean = values.length > 0 ? values.reduce((s, v) => s + v, 0) / values.length : 0;
+    return {
+        ...percentileBand(values),
+        mean: parseFloat(mean.toFixed(4)),
+        min: values.length > 0 ? Math.min(...values) : 0,
+        max: values.length > 0 ? Math.max(...values) : 0,
+    };
+}
+
+// ─── Service ─────────────────────────────────────────────────────────────────
+
+/**
+ * Multi-run analyses on top of BacktestService. Every analysis prepares the
+ * dataset once (single /pools/history fetch) and re-simulates in memory.
+ */
+@Injectable()
+export class BacktestAnalysisService {
+    private readonly logger = new Logger(BacktestAnalysisService.name);
+
+    constructor(private readonly backtestService: BacktestService) { }
+
+    // ─── Parameter sweep / grid search ───────────────────────────────────────
+    async runSweep(dto: RunSweepDto) {
+        const { backtest, parameters, rankBy = SweepRankMetric.ANNUALIZED_APY } = dto;
+
+        const grid = this.buildParameterGrid(parameters);
+        const startedAt = Date.now();
+        const ctx = await this.backtestService.prepareBacktest(backtest);
+        const rows = this.rankGrid(backtest, ctx, grid, rankBy);
+        this.logger.log(`Sweep: ${rows.length} combinations in ${Date.now() - startedAt}ms`);
+
+        return {
+            rankBy,
+            combinations: rows.length,
+            historyRecordsUsed: ctx.market.allRecords.length,
+            from: backtest.from,
+            to: backtest.to,
+            best: rows[0] ?? null,
+            results: rows.map((row, idx) => ({ rank: idx + 1, ...row })),
+        };
+    }
+
+    // ─── Rolling windows / walk-forward ──────────────────────────────────────
+
+    /**
+     * Re-run the same allocations over every `windowDays` window inside [from, to], stepping
+     * `stepDays`. History is fetched and resolved once; windows are slices of the same context.
+     */
+    async runRolling(dto: RunRollingDto) {
+        const { backtest, walkForward } = dto;
+        const windowDays = dto.windowDays ?? 90;
+        const stepDays = dto.stepDays ?? 7;
+        const trainDays = walkForward?.trainDays ?? 0;
+        const rankBy = walkForward?.rankBy ?? SweepRankMetric.ANNUALIZED_APY;
+
+        if (!Number.isInteger(windowDays) || windowDays < 2 || !Number.isInteger(stepDays) || stepDays < 1) {
+            throw new BadRequestException('"windowDays" must be an integer >= 2 and "stepDays" an integer >= 1');
+        }
+        if (walkForward && (!Number.isInteger(trainDays) || trainDays < 2)) {
+            throw new BadRequestException('"walkForward.trainDays" must be an integer >= 2');
+        }
+
+        const days = this.backtestService.buildDayList(new Date(backtest.from), new Date(backtest.to));
+        const windowStarts: number[] = [];
+        for (let s = trainDays; s + windowDays <= days.length - 1; s += stepDays) windowStarts.push(s);
+        if (windowStarts.length === 0) {
+            throw new BadRequestException(
+                `Range ${backtest.from}..${backtest.to} (${days.length - 1} days) is shorter than ` +
+                `${walkForward ? `trainDays (${trainDays}) + ` : ''}windowDays (${windowDays})`,
+            );
+        }
+        if (windowStarts.length > MAX_ROLLING_WINDOWS) {
+            throw new BadRequestException(
+                `Too many windows (${windowStarts.length} > ${MAX_ROLLING_WINDOWS}). Increase "stepDays" or shorten the range.`,
+            );
+        }
+        const grid = walkForward ? this.buildParameterGrid(walkForward.parameters) : [];
+        if (walkForward && grid.length * windowStarts.length > MAX_WALK_FORWARD_SIMULATIONS) {
+            throw new BadRequestException(
+                `Walk-forward needs ${grid.length * windowStarts.length} simulations (max ${MAX_WALK_FORWARD_SIMULATIONS}). ` +
+                `Narrow the sweep ranges or increase "stepDays".`,
+            );
+        }
+
+        const startedAt = Date.now();
+        const ctx = await this.backtestService.prepareBacktest(backtest);
+
+        const windows = windowStarts.map((s) => {
+            const from = days[s];
+            const to = days[s + windowDays];
+
+            // In-sample: choose the best parameter set on data strictly before the window
+            let chosen: Partial<Record<SweepParameterName, number>> = {};
+            let inSample: { from: string; to: string; [metric: string]: number | string } | undefined;
+            if (walkForward) {
+                const trainFrom = days[s - trainDays];
+                const trainTo = days[s - 1];
+                const [best] = this.rankGrid({
+                    ...backtest,
+                    from: trainFrom,
+                    to: trainTo,
+                    cashFlows: cashFlowsWithin(backtest.cashFlows, trainFrom, trainTo),
+                }, ctx, grid, rankBy);
+                chosen = best.parameters;
+                inSample = { from: trainFrom, to: trainTo, [rankBy]: best[rankBy] };
+            }
+
+            const { summary } = this.backtestService.simulate(
+                { ...backtest, ...chosen, from, to, cashFlows: cashFlowsWithin(backtest.cashFlows, from, to) },
+                ctx,
+                { quiet: true },
+            );
+            return {
+                from,
+                to,
+                ...(walkForward && { parameters: chosen, inSample }),
+                finalAmountUsd: summary.finalAmountUsd,
+                totalReturnPercent: summary.totalReturnPercent,
+                annualizedApyPercent: summary.annualizedApyPercent,
+                maxDrawdownPercent: summary.maxDrawdownPercent,
+                sharpeRatio: summary.sharpeRatio,
+            };
+        });
+
+        this.logger.log(
+            `Rolling: ${windows.length} windows of ${windowDays}d` +
+            `${walkForward ? ` (walk-forward, ${grid.length} combos)` : ''} in ${Date.now() - startedAt}ms`,
+        );
+
+        const positive = windows.filter(w => w.totalReturnPercent > 0).length;
+        return {
+            from: backtest.from,
+            to: backtest.to,
+            windowDays,
+            stepDays,
+            windowCount: windows.length,
+            historyRecordsUsed: ctx.market.allRecords.length,
+            positiveWindowsPercent: parseFloat(((positive / windows.length) * 100).toFixed(2)),
+            distribution: {
+                annualizedApyPercent: distribution(windows.map(w => w.annualizedApyPercent)),
+                maxDrawdownPercent: distribution(windows.map(w => w.maxDrawdownPercent)),
+                sharpeRatio: distribution(windows.map(w => w.sharpeRatio)),
+            },
+            ...(walkForward && { walkForward: { trainDays, rankBy, combinations: grid.length } }),
+            windows,
+        };
+    }
+
+    // ─── Multi-strategy comparison ──────────────────────────────────────────
+
+    /**
+     * Run 2–10 named allocation sets with shared settings on one `/pools/history` snapshot,
+     * so every strategy sees exactly the same data.
+     */
+    async runCompare(dto: RunCompareDto) {
+        const { settings, strategies } = dto;
+        if (strategies.length < MIN_COMPARE_STRATEGIES || strategies.length > MAX_COMPARE_STRATEGIES) {
+            throw new BadRequestException(
+                `Provide between ${MIN_COMPARE_STRATEGIES} and ${MAX_COMPARE_STRATEGIES} strategies. Got ${strategies.length}`,
+            );
+        }
+        const names = strategies.map(st => st.name);
+        const duplicate = names.find((n, i) => names.indexOf(n) !== i);
+        if (duplicate !== undefined) {
+            throw new BadRequestException(`Strategy names must be unique. '${duplicate}' is used more than once`);
+        }
+        // Fail fast on bad input before any network I/O
+        for (const st of strategies) {
+            try {
+                this.backtestService.validateBacktestDto({ ...settings, allocations: st.allocations });
+            } catch (err) {
+                throw new BadRequestException(`[${st.name}] ${err.message}`);
+            }
+        }
+
+        const startedAt = Date.now();
+        const market = await this.backtestService.loadMarketData(settings.from, settings.to);
+
+        const runs = [];
+        for (const st of strategies) {
+            const dto = { ...settings, allocations: st.allocations };
+            let ctx: BacktestContext;
+            try {
+                ctx = await this.backtestService.prepareBacktest(dto, market);
+            } catch (err) {
+                // Tag 422 invalid-allocation payloads with the strategy they came from
+                if (err instanceof HttpException && typeof err.getResponse() === 'object') {
+                    throw new HttpException({ ...(err.getResponse() as object), strategy: st.name }, err.getStatus());
+                }
+                throw err;
+            }
+            runs.push({ name: st.name, result: this.backtestService.simulate(dto, ctx, { quiet: true }) });
+        }
+        this.logger.log(`Compare: ${runs.length} strategies in ${Date.now() - startedAt}ms`);
+
+        const days = runs[0].result.timeSeries.map(t => t.date);
+        const returnsByName = new Map(runs.map(r => [
+            r.name,
+            r.result.timeSeries.slice(1).map(t => t.dailyReturnPct / 100),
+        ]));
+
+        const correlations = [];
+        for (let a = 0; a < runs.length; a++) {
+            for (let b = a + 1; b < runs.length; b++) {
+                const c = correlation(returnsByName.get(runs[a].name), returnsByName.get(runs[b].name));
+                correlations.push({
+                    a: runs[a].name,
+                    b: runs[b].name,
+                    correlation: c !== null ? parseFloat(c.toFixed(4)) : null,
+                });
+            }
+        }
+
+        return {
+            from: settings.from,
+            to: settings.to,
+            initialAmountUsd: settings.initialAmountUsd,
+            historyRecordsUsed: market.allRecords.length,
+            metrics: runs.map(({ name, result: { summary, breakdown } }) => ({
+                name,
+                finalAmountUsd: summary.finalAmountUsd,
+                totalReturnPercent: summary.totalReturnPercent,
+                annualizedApyPercent: summary.annualizedApyPercent,
+                maxDrawdownPercent: summary.maxDrawdownPercent,
+                sharpeRatio: summary.sharpeRatio,
+                sortinoRatio: summary.sortinoRatio,
+                calmarRatio: summary.calmarRatio,
+                volatilityPercent: summary.volatilityPercent,
+                var95Percent: summary.var95Percent,
+                rebalancedCount: summary.rebalancedCount,
+                xcmFeesPaidUsd: summary.xcmFeesPaidUsd,
+                slippageCostUsd: summary.slippageCostUsd,
+                fallbackAllocations: breakdown.filter(b => b.dataSource !== `${b.protocol}/${b.assetSymbol}`).length,
+            })),
+            correlations,
+            // One row per date, one column per strategy — ready for a multi-line chart
+            timeSeries: sampleIndices(days.length, MAX_BAND_POINTS).map(k => ({
+                date: days[k],
+                values: Object.fromEntries(runs.map(r => [r.name, r.result.timeSeries[k].totalValueUsd])),
+            })),
+        };
+    }
+
+    // ─── Monte Carlo ─────────────────────────────────────────────────────────
+
+    /**
+     * Circular block bootstrap of the historical daily APY series. Every path draws one
+     * sequence of day indices and applies it to all allocations, so cross-pool correlation
+     * and short-term autocorrelation (within a block) are preserved.
+     */
+    async runMonteCarlo(dto: RunMonteCarloDto) {
+        const { backtest } = dto;
+        const paths = dto.paths ?? 500;
+        const blockSizeDays = dto.blockSizeDays ?? 7;
+        const seed = dto.seed ?? Math.floor(Math.random() * 2 ** 31);
+
+        if (!Number.isInteger(paths) || paths < 1 || paths > MAX_MONTE_CARLO_PATHS) {
+            throw new BadRequestException(`"paths" must be an integer between 1 and ${MAX_MONTE_CARLO_PATHS}`);
+        }
+        if (!Number.isInteger(blockSizeDays) || blockSizeDays < 1) {
+            throw new BadRequestException('"blockSizeDays" must be a positive integer');
+        }
+        if (backtest.rotation) {
+            // Decisions read the recorded history, so they cannot follow a resampled APY path
+            throw new BadRequestException('Monte Carlo does not support "rotation" strategies');
+        }
+
+        const startedAt = Date.now();
+        const ctx = await this.backtestService.prepareBacktest(backtest);
+        const days = this.backtestService.buildDayList(new Date(backtest.from), new Date(backtest.to));
+        const historical = this.backtestService.simulate(backtest, ctx, { quiet: true });
+
+        const rng = createRng(seed);
+        const valuesByDay: number[][] = days.map(() => []);
+        const finals: number[] = [];
+        const returnsUsd: number[] = [];
+        const annualized: number[] = [];
+        const drawdowns: number[] = [];
+
+        for (let path = 0; path < paths; path++) {
+            const indices = this.blockBootstrapIndices(days.length, blockSizeDays, rng);
+            const pathCtx: BacktestContext = {
+                ...ctx,
+                allocations: ctx.allocations.map(a => ({
+                    ...a,
+                    apyHistory: this.backtestService.resampleApyHistory(a.apyHistory, days, indices),
+                    ...(a.borrowApyHistory && {
+                        borrowApyHistory: this.backtestService.resampleApyHistory(a.borrowApyHistory, days, indices),
+                    }),
+                })),
+            };
+            const { summary, timeSeries } = this.backtestService.simulate(backtest, pathCtx, { quiet: true });
+            timeSeries.forEach((point, k) => valuesByDay[k].push(point.totalValueUsd));
+            finals.push(summary.finalAmountUsd);
+            returnsUsd.push(summary.totalReturnUsd);
+            annualized.push(summary.annualizedApyPercent);
+            drawdowns.push(summary.maxDrawdownPercent);
+        }
+
+        const bands = sampleIndices(days.length, MAX_BAND_POINTS)
+            .map(k => ({ date: days[k], ...percentileBand(valuesByDay[k]) }));
+
+        // Net of deposits and withdrawals — a path that ends above the initial amount only
+        // because money was added still counts as a loss
+        const lossCount = returnsUsd.filter(v => v < 0).length;
+        this.logger.log(`Monte Carlo: ${paths} paths (block ${blockSizeDays}d, seed ${seed}) in ${Date.now() - startedAt}ms`);
+
+        return {
+            paths,
+            blockSizeDays,
+            seed,
+            initialAmountUsd: backtest.initialAmountUsd,
+            from: backtest.from,
+            to: backtest.to,
+            durationDays: days.length - 1,
+            probabilityOfLossPercent: parseFloat(((lossCount / paths) * 100).toFixed(2)),
+            meanFinalAmountUsd: parseFloat((finals.reduce((s, v) => s + v, 0) / paths).toFixed(4)),
+            finalAmountUsd: percentileBand(finals),
+            annualizedApyPercent: percentileBand(annualized),
+            maxDrawdownPercent: percentileBand(drawdowns),
+            historical: {
+                finalAmountUsd: historical.summary.finalAmountUsd,
+                annualizedApyPercent: historical.summary.annualizedApyPercent,
+                maxDrawdownPercent: historical.summary.maxDrawdownPercent,
+            },
+            bands,
+        };
+    }
+
+    // ─── Helpers ─────────────────────────────────────────────────────────────
+
+    /** Simulate every grid combination on one context; best first by `rankBy` */
+    private rankGrid(
+        backtest: RunBacktestDto,
+        ctx: BacktestContext,
+        grid: Partial<Record<SweepParameterName, number>>[],
+        rankBy: SweepRankMetric,
+    ) {
+        const rows = grid.map((params) => {
+            const { summary } = this.backtestService.simulate({ ...backtest, ...params }, ctx, { quiet: true });
+            return {
+                parameters: {
+                    compoundFrequencyDays: params.compoundFrequencyDays ?? backtest.compoundFrequencyDays ?? 7,
+                    rebalanceIntervalDays: params.rebalanceIntervalDays ?? backtest.rebalanceIntervalDays ?? 0,
+                    slippageTolerancePercent: params.slippageTolerancePercent ?? backtest.slippageTolerancePercent ?? 0,
+                },
+                finalAmountUsd: summary.finalAmountUsd,
+                totalReturnPercent: summary.totalReturnPercent,
+                annualizedApyPercent: summary.annualizedApyPercent,
+                maxDrawdownPercent: summary.maxDrawdownPercent,
+                sharpeRatio: summary.sharpeRatio,
+                rebalancedCount: summary.rebalancedCount,
+                totalHarvestEventsCount: summary.totalHarvestEventsCount,
+                xcmFeesPaidUsd: summary.xcmFeesPaidUsd,
+                slippageCostUsd: summary.slippageCostUsd,
+            };
+        });
+
+        // Higher is better for every metric (drawdown is reported as a negative number)
+        return rows.sort((a, b) => b[rankBy] - a[rankBy]);
+    }
+
+    /** Day indices for one path: random-start blocks of consecutive days, wrapping at the end */
+    private blockBootstrapIndices(length: number, blockSize: number, rng: () => number): number[] {
+        const indices: number[] = [];
+        while (indices.length < length) {
+            const start = Math.floor(rng() * length);
+            for (let j = 0; j < blockSize && indices.length < length; j++) {
+                indices.push((start + j) % length);
+            }
+        }
+        return indices;
+    }
+
+    /** Cartesian product of all swept parameters. Unswept parameters keep the base value. */
+    private buildParameterGrid(parameters: SweepParameters): Partial<Record<SweepParameterName, number>>[] {
+        const names = (Object.keys(parameters ?? {}) as SweepParameterName[]).filter(n => parameters[n]);
+        if (names.length === 0) {
+            throw new BadRequestException('At least one sweep parameter range is required');
+        }
+
+        let grid: Partial<Record<SweepParameterName, number>>[] = [{}];
+        for (const name of names) {
+            const values = this.expandRange(name, parameters[name]);
+            grid = grid.flatMap(combo => values.map(v => ({ ...combo, [name]: v })));
+            if (grid.length > MAX_SWEEP_COMBINATIONS) {
+                throw new BadRequestException(
+                    `Sweep has too many combinations (> ${MAX_SWEEP_COMBINATIONS}). Narrow the ranges or increase the steps.`,
+                );
+            }
+        }
+        return grid;
+    }
+
+    private expandRange(name: SweepParameterName, range: SweepRange): number[] {
+        let values: number[];
+        if (range.values?.length) {
+            values = [...new Set(range.values)];
+        } else {
+            const { min, max, step = 1 } = range;
+            if (min === undefined || max === undefined || min > max || step <= 0) {
+                throw new BadRequestException(`Sweep range for '${name}' needs "values" or a valid min <= max with step > 0`);
+            }
+            values = [];
+            // Index-based stepping avoids floating-point drift for fractional steps (e.g. 0.1%)
+            for (let k = 0; min + k * step <= max + 1e-9; k++) {
+                values.push(parseFloat((min + k * step).toFixed(8)));
+                if (values.length > MAX_VALUES_PER_PARAMETER) break;
+            }
+        }
+        if (values.length > MAX_VALUES_PER_PARAMETER) {
+            throw new BadRequestException(`Sweep range for '${name}' has more than ${MAX_VALUES_PER_PARAMETER} values`);
+        }
+        const { min, max, integer } = SWEEP_PARAMETER_LIMITS[name];
+        const invalid = values.find(v => !Number.isFinite(v) || v < min || (max !== undefined && v > max) || (integer && !Number.isInteger(v)));
+        if (invalid !== undefined) {
+            throw new BadRequestException(
+                `Sweep value ${invalid} for '${name}' is out of range: must be ${integer ? 'an integer ' : ''}` +
+                `>= ${min}${max !== undefined ? ` and <= ${max}` : ''}`,
+            );
+        }
+        return values;
+    }
+}
@@ -0,0 +1,51 @@
+import { DailyPriceSeries } from '../price-indexer/price-indexer.service';
+import { ApySplitData } from './backtest.service';
+
+// ─── Helpers shared by the day loop and its per-feature steps ────────────────
+
+/** Price on a given date — nearest past date, else the earliest available price */
+export function getPriceForDay(series: Pick<DailyPriceSeries, 'map' | 'sortedKeys'>, dateStr: string): number {
+    const { map, sortedKeys } = series;
+    if (map[dateStr] !== undefined) return map[dateStr];
+    let lo = 0, hi = sortedKeys.length - 1, best = -1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        if (sortedKeys[mid] <= dateStr) { best = mid; lo = mid + 1; }
+        else { hi = mid - 1; }
+    }
+    return map[sortedKeys[best >= 0 ? best : 0]];
+}
+
+/**
+ * Get split APY for a given date.
+ * Falls back to nearest past date, then nearest future, then { 0, 0 }.
+ */
+export function getApySplitForDay(
+    data: ApySplitData,
+    dateStr: string,
+): { supplyApy: number; rewardApy: number } {
+    const { map, sortedKeys } = data;
+    if (map[dateStr] !== undefined) return map[dateStr];
+
+    if (sortedKeys.length === 0) return { supplyApy: 0, rewardApy: 0 };
+
+    // Binary-search for the latest key <= dateStr
+    let lo = 0, hi = sortedKeys.length - 1, best = -1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        if (sortedKeys[mid] <= dateStr) { best = mid; lo = mid + 1; }
+        else { hi = mid - 1; }
+    }
+    if (best >= 0) return map[sortedKeys[best]];
+
+    return map[sortedKeys[0]];
+}
+
+export function avg(samples: number[]): number {
+    return samples.length > 0 ? samples.reduce((s, v) => s + v, 0) / samples.length : 0;
+}
+
+/** Constituent tokens of an LP symbol ("DOT-vDOT" → ["DOT", "vDOT"]); single assets return one entry */
+export function splitLpSymbol(assetSymbol: string): string[] {
+    return assetSymbol.split(/[-\/]/).filter(Boolean);
+}
@@ -0,0 +1,92 @@
+import { AllocState } from './backtest.service';
+import { HarvestPolicy, HarvestResult } from './backtest-reward-token';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** What `LedgerEntry.amountUsd` measures for each event type */
+export enum LedgerEventType {
+    DEPOSIT = 'deposit',                 // + capital put into the allocation (gross of slippage)
+    WITHDRAWAL = 'withdrawal',           // − capital taken out of the portfolio
+    HARVEST = 'harvest',                 // + pending rewards claimed; gas in details.feeUsd
+    REINVEST = 'reinvest',               // + claimed rewards added to the position after gas and slippage
+    REWARD_SOLD = 'reward_sold',         // + stablecoin proceeds of claimed reward tokens (policy: sell)
+    REWARD_HELD = 'reward_held',         // + value of claimed reward tokens kept as tokens (policy: hold)
+    REBALANCE_TRADE = 'rebalance_trade', // + bought into / − sold out of the allocation
+    XCM_FEE = 'xcm_fee',                 // − fee of one cross-network transfer
+    SLIPPAGE = 'slippage',               // − slippage cost; details.reason names the trade it belongs to
+    VTOKEN_FEE = 'vtoken_fee',           // − vToken mint / redeem fee or DEX discount; details.action names which
+    IL_ADJUSTMENT = 'il_adjustment',     // − impermanent loss (+ when a daily mark recovers)
+    LIQUIDATION = 'liquidation',         // − equity lost to the liquidation penalty
+}
+
+/** One money movement of a backtest, in the order it was applied */
+export interface LedgerEntry {
+    seq: number;
+    date: string;
+    type: LedgerEventType;
+    /** null for portfolio-level entries (costs borne pro rata, withdrawals) */
+    protocol: string | null;
+    assetSymbol: string | null;
+    amountUsd: number;
+    /** Allocation value incl. pending rewards after the event; null for portfolio-level entries */
+    balanceAfterUsd: number | null;
+    portfolioValueAfterUsd: number;
+    details?: Record<string, any>;
+}
+
+// ─── Ledger ──────────────────────────────────────────────────────────────────
+
+/** Every money movement of one simulation in the order it is applied — records nothing when disabled (quiet runs) */
+export class BacktestLedger {
+    readonly entries: LedgerEntry[] | null;
+
+    constructor(
+        private readonly states: AllocState[],
+        enabled: boolean,
+        private readonly harvestFeeUsd: number,
+    ) {
+        this.entries = enabled ? [] : null;
+    }
+
+    /** `pendingUsd` = the part of a multi-step event (e.g. its slippage) already applied but recorded next */
+    record(
+        date: string,
+        type: LedgerEventType,
+        state: AllocState | null,
+        amountUsd: number,
+        details?: Record<string, any>,
+        pendingUsd = 0,
+    ): void {
+        if (!this.entries || (type === LedgerEventType.SLIPPAGE && amountUsd === 0)) return;
+        const portfolioValue = this.states.reduce((s, a) => s + a.valueUsd + a.unclaimedRewardsUsd + a.accruedRewardsUsd, 0);
+        this.entries.push({
+            seq: this.entries.length + 1,
+            date,
+            type,
+            protocol: state?.protocol ?? null,
+            assetSymbol: state?.assetSymbol ?? null,
+            amountUsd: parseFloat(amountUsd.toFixed(4)),
+            balanceAfterUsd: state
+                ? parseFloat((state.valueUsd + state.unclaimedRewardsUsd + state.accruedRewardsUsd + pendingUsd).toFixed(4))
+                : null,
+            portfolioValueAfterUsd: parseFloat((portfolioValue + pendingUsd).toFixed(4)),
+            ...(details && { details }),
+        });
+    }
+
+    /** Claim, slippage and where the proceeds went (reinvested, sold or held) */
+    recordHarvest(date: string, state: AllocState, claimedUsd: number, harvest: HarvestResult, pendingUsd = 0): void {
+        const rt = state.rewardToken;
+        this.record(date, LedgerEventType.HARVEST, state, claimedUsd, {
+            feeUsd: this.harvestFeeUsd,
+            ...(rt && { rewardToken: rt.symbol, policy: rt.policy }),
+        }, pendingUsd + harvest.slippageUsd);
+        this.record(date, LedgerEventType.SLIPPAGE, state, -harvest.slippageUsd, { reason: 'harvest' }, pendingUsd);
+        if (!rt || rt.policy === HarvestPolicy.REINVEST) {
+            this.record(date, LedgerEventType.REINVEST, state, harvest.reinvestedUsd, undefined, pendingUsd);
+        } else {
+            const type = rt.policy === HarvestPolicy.SELL ? LedgerEventType.REWARD_SOLD : LedgerEventType.REWARD_HELD;
+            this.record(date, type, state, harvest.keptUsd, { rewardToken: rt.symbol }, pendingUsd);
+        }
+    }
+}
@@ -0,0 +1,255 @@
+import { DailyPriceSeries } from '../price-indexer/price-indexer.service';
+import { AllocState, ApySplitData, ResolvedAllocation } from './backtest.service';
+import { avg, getApySplitForDay, getPriceForDay } from './backtest-helpers';
+
+// ─── DTOs ───────────────────────────────────────────────────────────────────
+
+/**
+ * Lending loop: supply `assetSymbol`, borrow `borrowAssetSymbol` at `targetLtvPercent`, swap it
+ * back into the collateral and resupply, `loops` times. Collateral earns the pool's APY, debt
+ * accrues the borrow APY, and the health factor is tracked from TokenPrice every day.
+ */
+export interface LeverageConfig {
+    targetLtvPercent: number;
+    loops: number;
+    borrowAssetSymbol: string;
+    liquidationThresholdPercent?: number; // default: 80
+    liquidationPenaltyPercent?: number;   // default: 10
+    borrowApyPercent?: number;            // used when the pool history has no borrow APY
+}
+
+/** One liquidation day: the liquidator repays debt in rounds until the health factor is back above 1 */
+export interface LiquidationEvent {
+    date: string;
+    protocol: string;
+    assetSymbol: string;
+    healthFactorBefore: number;
+    ltvBeforePercent: number;
+    debtRepaidUsd: number;
+    collateralSeizedUsd: number;
+    penaltyUsd: number;
+    /** null when the position was wiped out */
+    healthFactorAfter: number | null;
+}
+
+// ─── Internal types ──────────────────────────────────────────────────────────
+
+export interface LeverageState {
+    config: LeverageConfig;
+    /** Fractions (0.8 = 80%) */
+    liquidationThreshold: number;
+    penalty: number;
+    borrowApyHistory: ApySplitData;
+    borrowApySource: string;
+    /** Both set, or neither (price ratio held at 1) */
+    collateralPrices?: DailyPriceSeries;
+    debtPrices?: DailyPriceSeries;
+    /** Collateral price on the first day — USD-mode equity is collateral units at this price */
+    basePrice: number;
+    /** token_units: equity at today's prices */
+    markToMarket: boolean;
+    collateralUnits: number;
+    debtUnits: number;
+    peakLtvPercent: number;
+    minHealthFactor: number | null;
+    borrowInterestUsd: number;
+    borrowApySamples: number[];
+    liquidations: LiquidationEvent[];
+    warning?: string;
+}
+
+/** Lending loop defaults (Aave-style market parameters) */
+export const LEVERAGE_DEFAULTS = { liquidationThresholdPercent: 80, liquidationPenaltyPercent: 10 };
+export const MAX_LEVERAGE_LOOPS = 10;
+/** Share of the debt a liquidator may repay per round */
+const LIQUIDATION_CLOSE_FACTOR = 0.5;
+
+// ─── Lending loops ───────────────────────────────────────────────────────────
+
+export function createLeverageState(
+    resolved: ResolvedAllocation,
+    tokenPrices: Map<string, DailyPriceSeries>,
+    firstDay: string,
+    isTokenUnits: boolean,
+): LeverageState {
+    const config = resolved.alloc.leverage;
+    const collateralPrices = tokenPrices.get(resolved.alloc.assetSymbol);
+    const debtPrices = tokenPrices.get(config.borrowAssetSymbol);
+    const priced = !!collateralPrices && !!debtPrices;
+    const missing = [resolved.alloc.assetSymbol, config.borrowAssetSymbol].filter(t => !tokenPrices.has(t));
+
+    return {
+        config,
+        liquidationThreshold: (config.liquidationThresholdPercent ?? LEVERAGE_DEFAULTS.liquidationThresholdPercent) / 100,
+        penalty: (config.liquidationPenaltyPercent ?? LEVERAGE_DEFAULTS.liquidationPenaltyPercent) / 100,
+        borrowApyHistory: resolved.borrowApyHistory,
+        borrowApySource: resolved.borrowApySource,
+        ...(priced && { collateralPrices, debtPrices }),
+        basePrice: priced ? getPriceForDay(collateralPrices, firstDay) : 1,
+        markToMarket: isTokenUnits && priced,
+        collateralUnits: 0,
+        debtUnits: 0,
+        peakLtvPercent: 0,
+        minHealthFactor: null,
+        borrowInterestUsd: 0,
+        borrowApySamples: [],
+        liquidations: [],
+        ...(!priced && {
+            warning: `No TokenPrice history for ${missing.join(', ')}: the ${resolved.alloc.assetSymbol}/` +
+                `${config.borrowAssetSymbol} price ratio is held constant, so the health factor only moves with interest.`,
+        }),
+    };
+}
+
+function leveragePrices(lev: LeverageState, day: string): { collateral: number; debt: number } {
+    if (!lev.collateralPrices) return { collateral: 1, debt: 1 };
+    return {
+        collateral: getPriceForDay(lev.collateralPrices, day),
+        debt: getPriceForDay(lev.debtPrices, day),
+    };
+}
+
+/** Loop equity in the run's valuation: USD at today's prices (token_units) or collateral units at the day-0 price (usd) */
+function leveragedEquity(lev: LeverageState, prices: { collateral: number; debt: number }): number {
+    const equityUsd = lev.collateralUnits * prices.collateral - lev.debtUnits * prices.debt;
+    return lev.markToMarket ? equityUsd : equityUsd * (lev.basePrice / prices.collateral);
+}
+
+/**
+ * Loop the position's equity up to the target LTV at `day` prices: borrow, swap into the
+ * collateral (slippage), resupply — `loops` times. Returns the slippage in the run's valuation.
+ */
+export function openLeverage(state: AllocState, day: string, slippagePercent: number): number {
+    const lev = state.leverage;
+    const prices = leveragePrices(lev, day);
+    const toUsd = lev.markToMarket ? 1 : prices.collateral / lev.basePrice;
+    const ltv = lev.config.targetLtvPercent / 100;
+
+    let suppliedUsd = state.valueUsd * toUsd;
+    let debtUsd = 0;
+    let lastSuppliedUsd = suppliedUsd;
+    let slippageUsd = 0;
+    for (let loop = 0; loop < lev.config.loops; loop++) {
+        const borrowedUsd = lastSuppliedUsd * ltv;
+        lastSuppliedUsd = borrowedUsd * (1 - slippagePercent / 100);
+        slippageUsd += borrowedUsd - lastSuppliedUsd;
+        debtUsd += borrowedUsd;
+        suppliedUsd += lastSuppliedUsd;
+    }
+
+    lev.collateralUnits = suppliedUsd / prices.collateral;
+    lev.debtUnits = debtUsd / prices.debt;
+    state.valueUsd = leveragedEquity(lev, prices);
+    return slippageUsd / toUsd;
+}
+
+/**
+ * One day of a lending loop: absorb yesterday's deposits / trades / costs at constant LTV,
+ * accrue supply and borrow interest, mark both legs and liquidate while the health factor
+ * is below 1. Returns slippage paid when a new position had to be looped.
+ */
+export function stepLeverage(state: AllocState, prevDay: string, day: string, supplyApy: number, slippagePercent: number): number {
+    const lev = state.leverage;
+    const prev = leveragePrices(lev, prevDay);
+    let slippage = 0;
+
+    const equity = leveragedEquity(lev, prev);
+    if (lev.collateralUnits > 0 && equity > 1e-9) {
+        const scale = Math.max(0, state.valueUsd) / equity;
+        lev.collateralUnits *= scale;
+        lev.debtUnits *= scale;
+    } else if (state.valueUsd > 1e-9) {
+        // Capital moved in after an exit or a phase switch — loop it up from scratch
+        slippage = openLeverage(state, prevDay, slippagePercent);
+    }
+
+    const borrowApy = getApySplitForDay(lev.borrowApyHistory, day).supplyApy;
+    lev.borrowApySamples.push(borrowApy);
+    const interestUnits = lev.debtUnits * (borrowApy / 100 / 365);
+    lev.collateralUnits *= 1 + supplyApy / 100 / 365;
+    lev.debtUnits += interestUnits;
+
+    const prices = leveragePrices(lev, day);
+    lev.borrowInterestUsd += interestUnits * prices.debt;
+    if (lev.markToMarket) {
+        state.priceReturnUsd +=
+            lev.collateralUnits * (prices.collateral - prev.collateral) - lev.debtUnits * (prices.debt - prev.debt);
+    }
+    liquidateIfUnsafe(state, day, prices);
+    state.valueUsd = Math.max(0, leveragedEquity(lev, prices));
+    return slippage;
+}
+
+/**
+ * Track LTV / health factor and, below HF 1, let a liquidator repay LIQUIDATION_CLOSE_FACTOR
+ * of the debt per round for collateral worth repaid × (1 + penalty). When the collateral
+ * cannot cover a round the position is wiped out.
+ */
+function liquidateIfUnsafe(state: AllocState, day: string, prices: { collateral: number; debt: number }): void {
+    const lev = state.leverage;
+    const collateralUsd = () => lev.collateralUnits * prices.collateral;
+    const debtUsd = () => lev.debtUnits * prices.debt;
+    const healthFactor = () => (collateralUsd() * lev.liquidationThreshold) / debtUsd();
+    if (debtUsd() <= 0 || collateralUsd() <= 0) return;
+
+    const ltvBefore = (debtUsd() / collateralUsd()) * 100;
+    const hfBefore = healthFactor();
+    lev.peakLtvPercent = Math.max(lev.peakLtvPercent, ltvBefore);
+    lev.minHealthFactor = Math.min(lev.minHealthFactor ?? Infinity, hfBefore);
+    if (hfBefore >= 1) return;
+
+    let repaidUsd = 0;
+    let seizedUsd = 0;
+    while (lev.debtUnits > 0 && healthFactor() < 1) {
+        const repayUsd = debtUsd() * LIQUIDATION_CLOSE_FACTOR;
+        const seizeUsd = repayUsd * (1 + lev.penalty);
+        if (seizeUsd >= collateralUsd()) {
+            repaidUsd += debtUsd();
+            seizedUsd += collateralUsd();
+            lev.collateralUnits = 0;
+            lev.debtUnits = 0;
+            break;
+        }
+        lev.collateralUnits -= seizeUsd / prices.collateral;
+        lev.debtUnits -= repayUsd / prices.debt;
+        repaidUsd += repayUsd;
+        seizedUsd += seizeUsd;
+    }
+
+    lev.liquidations.push({
+        date: day,
+        protocol: state.protocol,
+        assetSymbol: state.assetSymbol,
+        healthFactorBefore: parseFloat(hfBefore.toFixed(4)),
+        ltvBeforePercent: parseFloat(ltvBefore.toFixed(4)),
+        debtRepaidUsd: parseFloat(repaidUsd.toFixed(4)),
+        collateralSeizedUsd: parseFloat(seizedUsd.toFixed(4)),
+        penaltyUsd: parseFloat(Math.max(0, seizedUsd - repaidUsd).toFixed(4)),
+        healthFactorAfter: lev.debtUnits > 0 ? parseFloat(healthFactor().toFixed(4)) : null,
+    });
+}
+
+/** Per-allocation leverage report: net APY comes from the flow-adjusted navIndex */
+export function describeLeverage(state: AllocState, durationDays: number) {
+    const lev = state.leverage;
+    const ltv = lev.config.targetLtvPercent / 100;
+    const growth = state.navIndex[state.navIndex.length - 1] ?? 1;
+    return {
+        targetLtvPercent: lev.config.targetLtvPercent,
+        loops: lev.config.loops,
+        borrowAssetSymbol: lev.config.borrowAssetSymbol,
+        // Collateral per unit of equity before slippage: 1 + L + … + L^loops
+        leverageMultiple: parseFloat(((1 - Math.pow(ltv, lev.config.loops + 1)) / (1 - ltv)).toFixed(4)),
+        liquidationThresholdPercent: parseFloat((lev.liquidationThreshold * 100).toFixed(4)),
+        liquidationPenaltyPercent: parseFloat((lev.penalty * 100).toFixed(4)),
+        borrowApySource: lev.borrowApySource,
+        avgBorrowApyPercent: parseFloat(avg(lev.borrowApySamples).toFixed(4)),
+        borrowInterestUsd: parseFloat(lev.borrowInterestUsd.toFixed(4)),
+        netApyPercent: parseFloat((durationDays > 0 && growth > 0 ? (Math.pow(growth, 365 / durationDays) - 1) * 100 : -100).toFixed(4)),
+        peakLtvPercent: parseFloat(lev.peakLtvPercent.toFixed(4)),
+        minHealthFactor: lev.minHealthFactor !== null ? parseFloat(lev.minHealthFactor.toFixed(4)) : null,
+        liquidationCount: lev.liquidations.length,
+        liquidations: lev.liquidations,
+        ...(lev.warning && { warning: lev.warning }),
+    };
+}
@@ -0,0 +1,114 @@
+import { PoolHistoryRecord } from '../../common/services/pools-client.service';
+import { AllocState, BacktestAllocation } from './backtest.service';
+import { avg, getPriceForDay } from './backtest-helpers';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** `breakdown[].poolShare` — only `warning` is set when the pool has no recorded TVL */
+export interface PoolShareReport {
+    avgTvlUsd?: number;
+    minTvlUsd?: number;
+    peakPoolSharePercent?: number;
+    peakPoolShareDate?: string | null;
+    /** Average TVL / (TVL + position) applied to reward APY (tvlDilution only) */
+    avgRewardDilutionFactor?: number;
+    /** Largest position within maxPoolSharePercent at the lowest TVL seen */
+    capacityUsd?: number | null;
+    warning?: string;
+}
+
+/** Pool TVL in USD per day with pre-sorted keys, forward-filled on lookup */
+export interface TvlHistory {
+    map: { [date: string]: number };
+    sortedKeys: string[];
+}
+
+export interface PoolShareState {
+    tvlHistory?: TvlHistory;
+    tvlSamples: number[];
+    /** TVL / (TVL + position) applied to reward APY, one per day */
+    rewardFactorSamples: number[];
+    peakSharePercent: number;
+    peakShareDate: string | null;
+}
+
+// ─── Pool share ──────────────────────────────────────────────────────────────
+
+/** Daily pool TVL from the records of this exact pool — fallback sources describe other pools */
+export function buildTvlHistory(records: PoolHistoryRecord[], alloc: BacktestAllocation): TvlHistory | undefined {
+    const map: TvlHistory['map'] = {};
+    for (const rec of records) {
+        if (rec.protocol !== alloc.protocol || rec.assetSymbol !== alloc.assetSymbol) continue;
+        if (typeof rec.tvlUsd !== 'number' || !(rec.tvlUsd >= 0)) continue;
+        map[rec.dataTimestamp.slice(0, 10)] = rec.tvlUsd;
+    }
+    const sortedKeys = Object.keys(map).sort();
+    return sortedKeys.length > 0 ? { map, sortedKeys } : undefined;
+}
+
+export function createPoolShareState(tvlHistory: TvlHistory | undefined): PoolShareState {
+    return { tvlHistory, tvlSamples: [], rewardFactorSamples: [], peakSharePercent: 0, peakShareDate: null };
+}
+
+/**
+ * Record today's TVL and pool share of an allocation and return the factor its reward APY is
+ * scaled by: emissions are shared pro rata, so adding `position` to a pool of `tvl` pays
+ * tvl / (tvl + position) of the quoted APY. 1 when dilution is off or TVL is unknown.
+ */
+export function samplePoolShare(state: AllocState, day: string, dilute: boolean): number {
+    const share = state.poolShare;
+    if (!share.tvlHistory) return 1;
+    const tvl = getPriceForDay(share.tvlHistory, day);
+    const position = Math.max(0, state.valueUsd);
+    const sharePercent = tvl + position > 0 ? (position / (tvl + position)) * 100 : 0;
+    share.tvlSamples.push(tvl);
+    if (sharePercent > share.peakSharePercent) {
+        share.peakSharePercent = sharePercent;
+        share.peakShareDate = day;
+    }
+    const factor = dilute && tvl + position > 0 ? tvl / (tvl + position) : 1;
+    share.rewardFactorSamples.push(factor);
+    return factor;
+}
+
+export function describePoolShare(state: AllocState, dilute: boolean, maxSharePercent: number): PoolShareReport {
+    const share = state.poolShare;
+    if (!share.tvlHistory) {
+        return {
+            warning: `No TVL recorded for ${state.protocol}/${state.assetSymbol} — ` +
+                (dilute ? 'reward APY not diluted and pool share unknown.' : 'pool share unknown.'),
+        };
+    }
+    const minTvlUsd = Math.min(...share.tvlSamples);
+    // Largest position that stays within the cap at the lowest TVL seen: p / (tvl + p) = cap
+    const capacityUsd = maxSharePercent < 100 ? minTvlUsd * maxSharePercent / (100 - maxSharePercent) : null;
+    return {
+        avgTvlUsd: parseFloat(avg(share.tvlSamples).toFixed(2)),
+        minTvlUsd: parseFloat(minTvlUsd.toFixed(2)),
+        peakPoolSharePercent: parseFloat(share.peakSharePercent.toFixed(4)),
+        peakPoolShareDate: share.peakShareDate,
+        ...(dilute && { avgRewardDilutionFactor: parseFloat(avg(share.rewardFactorSamples).toFixed(6)) }),
+        capacityUsd: capacityUsd !== null ? parseFloat(capacityUsd.toFixed(2)) : null,
+        ...(share.peakSharePercent > maxSharePercent && {
+            warning: `Position reached ${share.peakSharePercent.toFixed(2)}% of the ${state.protocol}/${state.assetSymbol} pool ` +
+                `on ${share.peakShareDate} (max ${maxSharePercent}%).`,
+        }),
+    };
+}
+
+/**
+ * Strategy capacity: the largest initial investment that keeps every allocation with known TVL
+ * within the pool-share cap at its starting weight.
+ */
+export function summarizePoolShare(states: AllocState[], initialAmountUsd: number, maxSharePercent: number) {
+    const tracked = states.filter(a => a.poolShare?.tvlHistory && a.poolShare.tvlSamples.length > 0);
+    const capacities = tracked
+        .filter(a => a.initialPercentage > 0 && maxSharePercent < 100)
+        .map(a => Math.min(...a.poolShare.tvlSamples) * maxSharePercent / (100 - maxSharePercent) / (a.initialPercentage / 100));
+    const peak = Math.max(0, ...tracked.map(a => a.poolShare.peakSharePercent));
+    return {
+        peakPoolSharePercent: parseFloat(peak.toFixed(4)),
+        poolShareWarningCount: tracked.filter(a => a.poolShare.peakSharePercent > maxSharePercent).length,
+        strategyCapacityUsd: capacities.length > 0 ? parseFloat(Math.min(...capacities).toFixed(2)) : null,
+    };
+}
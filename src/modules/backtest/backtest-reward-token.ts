@@ -0,0 +1,161 @@
+import { DailyPriceSeries } from '../price-indexer/price-indexer.service';
+import { AllocState } from './backtest.service';
+import { getPriceForDay } from './backtest-helpers';
+
+// ─── DTOs ───────────────────────────────────────────────────────────────────
+
+/** What a harvest does with the claimed reward tokens */
+export enum HarvestPolicy {
+    REINVEST = 'reinvest', // sell and add the proceeds back into the position (default)
+    SELL = 'sell',         // sell to a stablecoin and keep the proceeds aside
+    HOLD = 'hold',         // keep the tokens, marked to market every day
+}
+
+/**
+ * Farm emissions paid in `symbol` (e.g. BNC): `rewardApy` is converted into tokens at the
+ * emission day's TokenPrice and pending / held tokens are revalued daily.
+ */
+export interface RewardTokenConfig {
+    symbol: string;
+    policy?: HarvestPolicy; // default: reinvest
+}
+
+// ─── Internal types ──────────────────────────────────────────────────────────
+
+export interface RewardTokenState {
+    symbol: string;
+    policy: HarvestPolicy;
+    /** Unset when TokenPrice has no history — rewards are then valued in USD at emission */
+    prices?: DailyPriceSeries;
+    pendingUnits: number;
+    heldUnits: number;
+    heldUsd: number;
+    soldUsd: number;
+    emittedUnits: number;
+    /** Emissions valued at the emission day's price */
+    emittedUsd: number;
+    /** Pending rewards' value when they were claimed (before gas / slippage) */
+    harvestedUsd: number;
+    /** Mark-to-market change of pending and held tokens after emission */
+    priceImpactUsd: number;
+    warning?: string;
+}
+
+/** What one harvest did with the claimed rewards */
+export interface HarvestResult {
+    reinvestedUsd: number;
+    slippageUsd: number;
+    keptUsd: number;
+}
+
+// ─── Harvests and reward tokens ──────────────────────────────────────────────
+
+/** Emissions counted in tokens and valued through TokenPrice */
+export function createRewardTokenState(
+    config: RewardTokenConfig,
+    tokenPrices: Map<string, DailyPriceSeries>,
+    days: string[],
+): RewardTokenState {
+    const prices = tokenPrices.get(config.symbol);
+    return {
+        symbol: config.symbol,
+        policy: config.policy ?? HarvestPolicy.REINVEST,
+        prices,
+        pendingUnits: 0,
+        heldUnits: 0,
+        heldUsd: 0,
+        soldUsd: 0,
+        emittedUnits: 0,
+        emittedUsd: 0,
+        harvestedUsd: 0,
+        priceImpactUsd: 0,
+        ...(!prices && {
+            warning: `No TokenPrice history for ${config.symbol} between ${days[0]} and ${days[days.length - 1]} — ` +
+                'rewards valued in USD at emission.',
+        }),
+    };
+}
+
+/**
+ * Claim a farm's pending rewards back into its position: gas first, then the
+ * reward → LP swap slippage. Nothing happens while rewards don't cover the gas.
+ */
+export function harvestRewards(state: AllocState, feeUsd: number, slippagePercent: number): HarvestResult | null {
+    if (state.unclaimedRewardsUsd <= feeUsd) return null;
+    const rt = state.rewardToken;
+    const policy = rt?.policy ?? HarvestPolicy.REINVEST;
+    const claimedUsd = state.unclaimedRewardsUsd;
+    const afterGas = claimedUsd - feeUsd;
+    state.totalHarvestFeesUsd += feeUsd;
+    state.unclaimedRewardsUsd = 0;
+    if (rt) {
+        rt.harvestedUsd += claimedUsd;
+        // Gas is paid out of the claimed tokens
+        if (policy === HarvestPolicy.HOLD) rt.heldUnits += rt.pendingUnits * (afterGas / claimedUsd);
+        rt.pendingUnits = 0;
+    }
+
+    if (policy === HarvestPolicy.HOLD) {
+        // No swap, no slippage — the tokens stay in the wallet
+        rt.heldUsd += afterGas;
+        state.accruedRewardsUsd += afterGas;
+        return { reinvestedUsd: 0, slippageUsd: 0, keptUsd: afterGas };
+    }
+
+    const proceedsUsd = afterGas * (1 - slippagePercent / 100);
+    if (policy === HarvestPolicy.SELL) {
+        rt.soldUsd += proceedsUsd;
+        state.accruedRewardsUsd += proceedsUsd;
+        return { reinvestedUsd: 0, slippageUsd: afterGas - proceedsUsd, keptUsd: proceedsUsd };
+    }
+    state.valueUsd += proceedsUsd;
+    state.totalCompoundedRewardsUsd += proceedsUsd;
+    return { reinvestedUsd: proceedsUsd, slippageUsd: afterGas - proceedsUsd, keptUsd: 0 };
+}
+
+/**
+ * Mark yesterday's pending and held reward tokens to today's price, then add today's
+ * emissions as tokens bought at that price. Without price history rewards stay in USD.
+ */
+export function accrueRewardTokens(state: AllocState, day: string, emittedUsd: number): void {
+    const rt = state.rewardToken;
+    rt.emittedUsd += emittedUsd;
+    if (!rt.prices) {
+        state.unclaimedRewardsUsd += emittedUsd;
+        return;
+    }
+
+    const price = getPriceForDay(rt.prices, day);
+    const pendingUsd = rt.pendingUnits * price;
+    const heldUsd = rt.heldUnits * price;
+    rt.priceImpactUsd += (pendingUsd - state.unclaimedRewardsUsd) + (heldUsd - rt.heldUsd);
+    state.accruedRewardsUsd += heldUsd - rt.heldUsd;
+    rt.heldUsd = heldUsd;
+
+    rt.pendingUnits += emittedUsd / price;
+    rt.emittedUnits += emittedUsd / price;
+    state.unclaimedRewardsUsd = pendingUsd + emittedUsd;
+}
+
+/** Reward token report: emissions at emission prices vs what the tokens were worth when claimed / at the end */
+export function describeRewardToken(state: AllocState, days: string[]) {
+    const rt = state.rewardToken;
+    const startPrice = rt.prices ? getPriceForDay(rt.prices, days[0]) : null;
+    const endPrice = rt.prices ? getPriceForDay(rt.prices, days[days.length - 1]) : null;
+    return {
+        symbol: rt.symbol,
+        policy: rt.policy,
+        priceStartUsd: startPrice,
+        priceEndUsd: endPrice,
+        priceChangePercent: startPrice && endPrice ? parseFloat(((endPrice / startPrice - 1) * 100).toFixed(4)) : null,
+        emittedUnits: parseFloat(rt.emittedUnits.toFixed(6)),
+        emittedUsd: parseFloat(rt.emittedUsd.toFixed(4)),
+        harvestedUsd: parseFloat(rt.harvestedUsd.toFixed(4)),
+        pendingUnits: parseFloat(rt.pendingUnits.toFixed(6)),
+        heldUnits: parseFloat(rt.heldUnits.toFixed(6)),
+        heldUsd: parseFloat(rt.heldUsd.toFixed(4)),
+        soldUsd: parseFloat(rt.soldUsd.toFixed(4)),
+        priceImpactUsd: parseFloat(rt.priceImpactUsd.toFixed(4)),
+        ...(rt.warning && { warning: rt.warning }),
+    };
+}
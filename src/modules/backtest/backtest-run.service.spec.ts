@@ -0,0 +1,193 @@
+import { HttpStatus, NotFoundException, StreamableFile } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BacktestRunService } from './backtest-run.service';
+import { BacktestController } from './backtest.controller';
+import { BacktestService, RunBacktestDto, PoolType } from './backtest.service';
+import { BacktestAnalysisService } from './backtest-analysis.service';
+import { StrategyService } from './strategy.service';
+import { StressScenarioService } from './stress-scenario.service';
+import { ExportService } from '../../common/services/export.service';
+import { BacktestRun } from '../../entities';
+
+describe('BacktestRunService', () => {
+    let service: BacktestRunService;
+    let controller: BacktestController;
+    let runBacktest: jest.Mock;
+    let runRepo: Record<string, jest.Mock>;
+
+    const dto: RunBacktestDto = {
+        initialAmountUsd: 1000,
+        from: '2026-01-01',
+        to: '2026-01-31',
+        allocations: [{ protocol: 'bifrost', assetSymbol: 'vDOT', percentage: 100, poolType: PoolType.VSTAKING }],
+    };
+
+    const result = {
+        summary: { finalAmountUsd: 1010 },
+        breakdown: [],
+        timeSeries: [{ date: '2026-01-01', totalValueUsd: 1000 }, { date: '2026-01-31', totalValueUsd: 1010 }],
+        ledger: [{ type: 'harvest' }],
+    };
+
+    /** Let the setImmediate job and its awaited repository calls finish */
+    const flushJobs = () => new Promise(resolve => setImmediate(resolve)).then(() => new Promise(resolve => setImmediate(resolve)));
+
+    beforeEach(async () => {
+        runBacktest = jest.fn().mockResolvedValue(result);
+        runRepo = {
+            create: jest.fn((entity) => entity),
+            save: jest.fn(async (entity) => entity),
+            findOne: jest.fn(),
+            findAndCount: jest.fn().mockResolvedValue([[], 0]),
+            updateOne: jest.fn().mockResolvedValue({}),
+            updateMany: jest.fn().mockResolvedValue({ modifiedCount: 0 }),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            controllers: [BacktestController],
+            providers: [
+                BacktestRunService,
+                ExportService,
+                {
+                    provide: BacktestService,
+                    useValue: { runBacktest, chartTimeSeries: jest.fn((series: unknown[]) => series.slice(-1)) },
+                },
+                { provide: getRepositoryToken(BacktestRun), useValue: runRepo },
+                { provide: BacktestAnalysisService, useValue: {} },
+                { provide: StrategyService, useValue: {} },
+                { provide: StressScenarioService, useValue: { resolveInto: jest.fn(async (d) => d) } },
+            ],
+        }).compile();
+
+        service = module.get<BacktestRunService>(BacktestRunService);
+        controller = module.get<BacktestController>(BacktestController);
+    });
+
+    describe('runAndStore', () => {
+        it('TestCase 1: stores the finished run with the heavy series split out and returns its runId', async () => {
+            const response = await service.runAndStore(dto);
+
+            expect(response).toMatchObject({ runId: expect.any(String), summary: result.summary });
+            expect(runRepo.save).toHaveBeenCalledTimes(1);
+            expect(runRepo.save.mock.calls[0][0]).toMatchObject({
+                runId: response.runId,
+                status: 'done',
+                strategy: dto,
+                results: { summary: result.summary, breakdown: [] },
+                timeSeries: result.timeSeries,
+                ledger: result.ledger,
+            });
+        });
+
+        it('TestCase 2: still returns the result when persisting fails, and stores nothing when the run is invalid', async () => {
+            runRepo.save.mockRejectedValueOnce(new Error('mongo down'));
+            await expect(service.runAndStore(dto)).resolves.toMatchObject({ summary: result.summary });
+
+            runRepo.save.mockClear();
+            runBacktest.mockRejectedValueOnce(new Error('bad allocation'));
+            await expect(service.runAndStore(dto)).rejects.toThrow('bad allocation');
+            expect(runRepo.save).not.toHaveBeenCalled();
+        });
+
+        it('TestCase 3: fullTimeSeries returns every day but stores the chart series', async () => {
+            const response = await service.runAndStore(dto, { fullTimeSeries: true });
+
+            expect(runBacktest).toHaveBeenCalledWith(dto, { fullTimeSeries: true });
+            expect(response.timeSeries).toEqual(result.timeSeries);
+            expect(runRepo.save.mock.calls[0][0].timeSeries).toEqual(result.timeSeries.slice(-1));
+        });
+    });
+
+    describe('enqueue', () => {
+        it('TestCase 4: returns a pending run at once, then runs it in the background to done', async () => {
+            const queued = await service.enqueue(dto);
+
+            expect(queued).toEqual({ runId: expect.any(String), status: 'pending' });
+            expect(runRepo.save.mock.calls[0][0]).toMatchObject({ runId: queued.runId, status: 'pending' });
+            expect(runBacktest).not.toHaveBeenCalled();
+
+            await flushJobs();
+            const updates = runRepo.updateOne.mock.calls.map(([, update]) => update.$set.status);
+            expect(updates).toEqual(['running', 'done']);
+            expect(runRepo.updateOne.mock.calls[1][1].$set).toMatchObject({ timeSeries: result.timeSeries, ledger: result.ledger });
+        });
+
+        it('TestCase 5: a failing background run ends in error with its message', async () => {
+            runBacktest.mockRejectedValueOnce(new Error('No historical data'));
+            await service.enqueue(dto);
+            await flushJobs();
+
+            expect(runRepo.updateOne.mock.calls[1][1].$set).toMatchObject({ status: 'error', errorMessage: 'No historical data' });
+        });
+    });
+
+    describe('getRun / listRuns', () => {
+        it('TestCase 6: getRun reassembles the stored result and throws 404 for an unknown id', async () => {
+            runRepo.findOne.mockResolvedValueOnce({
+                runId: 'r1',
+                status: 'done',
+                strategy: dto,
+                results: { summary: result.summary },
+                timeSeries: result.timeSeries,
+                ledger: result.ledger,
+                createdAt: new Date('2026-02-01'),
+            });
+
+            const run = await service.getRun('r1');
+            expect(run.result).toEqual({ summary: result.summary, timeSeries: result.timeSeries, ledger: result.ledger });
+            expect(run.completedAt).toBeNull();
+
+            runRepo.findOne.mockResolvedValueOnce(null);
+            await expect(service.getRun('missing')).rejects.toThrow(NotFoundException);
+        });
+
+        it('TestCase 7: listRuns clamps page and limit and filters by status', async () => {
+            runRepo.findAndCount.mockResolvedValueOnce([[], 250]);
+            const page = await service.listRuns({ page: 3, limit: 500, status: 'done' });
+            expect(page).toMatchObject({ page: 3, limit: 100, total: 250, totalPages: 3 });
+            expect(runRepo.findAndCount.mock.calls[0][0]).toMatchObject({ where: { status: 'done' }, skip: 200, take: 100 });
+
+            await service.listRuns({ page: 0, limit: 0 });
+            expect(runRepo.findAndCount.mock.calls[1][0]).toMatchObject({ where: {}, skip: 0, take: 20 });
+
+            await service.listRuns({ page: -2, limit: 2.7 });
+            expect(runRepo.findAndCount.mock.calls[2][0]).toMatchObject({ skip: 0, take: 2 });
+        });
+    });
+
+    describe('startup', () => {
+        it('TestCase 8: runs left pending or running by a restart are marked as failed', async () => {
+            runRepo.updateMany.mockResolvedValueOnce({ modifiedCount: 2 });
+            await service.onModuleInit();
+
+            const [filter, update] = runRepo.updateMany.mock.calls[0];
+            expect(filter).toEqual({ status: { $in: ['pending', 'running'] } });
+            expect(update.$set).toMatchObject({ status: 'error', errorMessage: expect.stringContaining('restart') });
+        });
+    });
+
+    describe('BacktestController.runBacktest', () => {
+        it('TestCase 9: ?async=true answers 202 with a pending run and does not run inline', async () => {
+            const res = { status: jest.fn() };
+            const response = await controller.runBacktest(dto, 'true', undefined, undefined, res as any);
+
+            expect(res.status).toHaveBeenCalledWith(HttpStatus.ACCEPTED);
+            expect(response).toEqual({ runId: expect.any(String), status: 'pending' });
+            expect(runBacktest).not.toHaveBeenCalled();
+            await flushJobs();
+            expect(runBacktest).toHaveBeenCalledWith(dto);
+        });
+
+        it('TestCase 10: a file export is stored as a run and its runId is sent in a header', async () => {
+            const res = { status: jest.fn(), setHeader: jest.fn() };
+            const file = await controller.runBacktest(dto, undefined, 'csv', undefined, res as any);
+
+            expect(file).toBeInstanceOf(StreamableFile);
+            expect(runBacktest).toHaveBeenCalledWith(dto, { fullTimeSeries: true });
+            expect(runRepo.save).toHaveBeenCalledTimes(1);
+            const { runId } = runRepo.save.mock.calls[0][0];
+            expect(res.setHeader).toHaveBeenCalledWith('X-Backtest-Run-Id', runId);
+        });
+    });
+});
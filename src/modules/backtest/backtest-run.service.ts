@@ -0,0 +1,201 @@
+import { Injectable, Logger, NotFoundException, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { MongoRepository } from 'typeorm';
+import { v4 as uuidv4 } from 'uuid';
+import { BacktestRun } from '../../entities';
+import { BacktestService, RunBacktestDto, RunBacktestOptions } from './backtest.service';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type BacktestRunStatus = BacktestRun['status'];
+
+export interface ListBacktestRunsParams {
+    page?: number;
+    limit?: number;
+    status?: BacktestRunStatus;
+}
+
+/** Columns returned by the listing endpoint — heavy result payloads are left out */
+const LIST_COLUMNS: (keyof BacktestRun)[] = [
+    'runId', 'status', 'strategy', 'errorMessage', 'executionTimeMs', 'createdAt', 'startedAt', 'completedAt',
+];
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+/**
+ * Persists backtest runs into `backtest_runs` and executes queued jobs in the background.
+ * Status lifecycle: pending → running → done | error
+ */
+@Injectable()
+export class BacktestRunService implements OnModuleInit {
+    private readonly logger = new Logger(BacktestRunService.name);
+
+    constructor(
+        private readonly backtestService: BacktestService,
+        @InjectRepository(BacktestRun)
+        private readonly runRepo: MongoRepository<BacktestRun>,
+    ) { }
+
+    /**
+     * Background jobs live in this process only, so runs still pending/running at startup were
+     * cut off by a restart and would otherwise be polled forever. Mark them as failed.
+     */
+    async onModuleInit() {
+        try {
+            const { modifiedCount } = await this.runRepo.updateMany(
+                { status: { $in: ['pending', 'running'] } },
+                { $set: { status: 'error', errorMessage: 'Interrupted by a server restart', completedAt: new Date() } },
+            );
+            if (modifiedCount > 0) {
+                this.logger.warn(`Marked ${modifiedCount} interrupted backtest run(s) as failed`);
+            }
+        } catch (err) {
+            this.logger.error(`Failed to clean up interrupted backtest runs: ${err.message}`);
+        }
+    }
+
+    // ─── Public API ──────────────────────────────────────────────────────────
+
+    /**
+     * Run a backtest inline and store the finished run so it can be reopened later.
+     * Validation errors are thrown to the caller and nothing is stored.
+     * With `fullTimeSeries` (file exports) the caller gets every day; the stored run keeps the chart series.
+     */
+    async runAndStore(dto: RunBacktestDto, opts: RunBacktestOptions = {}) {
+        const runId = uuidv4();
+        const startedAt = new Date();
+        const result = await this.backtestService.runBacktest(dto, opts);
+        const completedAt = new Date();
+        const { timeSeries: resultSeries, ledger, ...results } = result;
+        const timeSeries = opts.fullTimeSeries ? this.backtestService.chartTimeSeries(resultSeries) : resultSeries;
+
+        try {
+            await this.runRepo.save(this.runRepo.create({
+                runId,
+                strategy: dto as unknown as Record<string, any>,
+                status: 'done',
+                results,
+                timeSeries,
+                ledger,
+                executionTimeMs: completedAt.getTime() - startedAt.getTime(),
+                startedAt,
+                completedAt,
+            }));
+        } catch (err) {
+            // Persistence must never cost the caller their result
+            this.logger.error(`[${runId}] Failed to persist backtest run: ${err.message}`);
+        }
+
+        return { runId, ...result };
+    }
+
+    /** Create a pending run and execute it in the background. Returns immediately. */
+    async enqueue(dto: RunBacktestDto): Promise<{ runId: string; status: BacktestRunStatus }> {
+        const runId = uuidv4();
+        await this.runRepo.save(this.runRepo.create({
+            runId,
+            strategy: dto as unknown as Record<string, any>,
+            status: 'pending',
+        }));
+
+        // Fire-and-forget — the client polls GET /backtest/:runId
+        setImmediate(() => {
+            this.execute(runId, dto).catch((err) =>
+                this.logger.error(`[${runId}] Background execution crashed: ${err.message}`, err.stack),
+            );
+        });
+
+        this.logger.log(`[${runId}] Backtest job queued`);
+        return { runId, status: 'pending' };
+    }
+
+    async getRun(runId: string) {
+        const run = await this.runRepo.findOne({ where: { runId } });
+        if (!run) {
+            throw new NotFoundException(`Backtest run '${runId}' not found`);
+        }
+        return this.toResponse(run);
+    }
+
+    async listRuns(params: ListBacktestRunsParams) {
+        const page = Math.max(1, Math.floor(Number(params.page) || 1));
+        const limit = Math.min(100, Math.max(1, Math.floor(Number(params.limit) || 20)));
+        const where = params.status ? { status: params.status } : {};
+
+        const [runs, total] = await this.runRepo.findAndCount({
+            where,
+            select: LIST_COLUMNS,
+            order: { createdAt: 'DESC' },
+            skip: (page - 1) * limit,
+            take: limit,
+        });
+
+        return {
+            page,
+            limit,
+            total,
+            totalPages: Math.ceil(total / limit),
+            data: runs.map((run) => this.toResponse(run)),
+        };
+    }
+
+    // ─── Job execution ───────────────────────────────────────────────────────
+
+    private async execute(runId: string, dto: RunBacktestDto): Promise<void> {
+        const startedAt = new Date();
+        await this.runRepo.updateOne({ runId }, { $set: { status: 'running', startedAt } });
+
+        try {
+            const { timeSeries, ledger, ...results } = await this.backtestService.runBacktest(dto);
+            const completedAt = new Date();
+            await this.runRepo.updateOne(
+                { runId },
+                {
+                    $set: {
+                        status: 'done',
+                        results,
+                        timeSeries,
+                        ledger,
+                        executionTimeMs: completedAt.getTime() - startedAt.getTime(),
+                        completedAt,
+                    },
+                },
+            );
+            this.logger.log(`[${runId}] Backtest job done in ${completedAt.getTime() - startedAt.getTime()}ms`);
+        } catch (err) {
+            const completedAt = new Date();
+            await this.runRepo.updateOne(
+                { runId },
+                {
+                    $set: {
+                        status: 'error',
+                        errorMessage: err.message ?? String(err),
+                        executionTimeMs: completedAt.getTime() - startedAt.getTime(),
+                        completedAt,
+                    },
+                },
+            );
+            this.logger.warn(`[${runId}] Backtest job failed: ${err.message}`);
+        }
+    }
+
+    private toResponse(run: BacktestRun) {
+        return {
+            runId: run.runId,
+            status: run.status,
+            strategy: run.strategy,
+            ...(run.results && {
+                result: {
+                    ...run.results,
+                    timeSeries: run.timeSeries ?? [],
+                    ledger: run.ledger ?? [],
+                },
+            }),
+            ...(run.errorMessage && { errorMessage: run.errorMessage }),
+            executionTimeMs: run.executionTimeMs ?? null,
+            createdAt: run.createdAt,
+            startedAt: run.startedAt ?? null,
+            completedAt: run.completedAt ?? null,
+        };
+    }
+}
@@ -0,0 +1,150 @@
+import { AllocState } from './backtest.service';
+import { splitLpSymbol } from './backtest-helpers';
+
+// ─── DTOs ───────────────────────────────────────────────────────────────────
+
+/**
+ * Shocks a stress scenario injects into the day loop. `date` defaults to the middle of the range.
+ *   depeg            = `assetSymbol` trades `percent`% below its peg for `days` days (default: until the end),
+ *                      then recovers; LP positions lose their constituent's share of it
+ *   stablecoin_depeg = the same for stablecoins — every USDC/USDT/DAI position unless `assetSymbol` is set
+ *   protocol_loss    = every position on `protocol` permanently loses `percent`% on `date` (exploit, bad debt)
+ *   reward_apy_zero  = farm / staking reward APY is 0 from `date` on (only `protocol` when set)
+ */
+export enum StressShockType {
+    DEPEG = 'depeg',
+    STABLECOIN_DEPEG = 'stablecoin_depeg',
+    PROTOCOL_LOSS = 'protocol_loss',
+    REWARD_APY_ZERO = 'reward_apy_zero',
+}
+
+export interface StressShock {
+    type: StressShockType;
+    date?: string;
+    assetSymbol?: string;
+    protocol?: string;
+    percent?: number;
+    days?: number;
+}
+
+export interface StressScenarioDefinition {
+    name: string;
+    description?: string;
+    shocks: StressShock[];
+}
+
+/** Value a shock moved on one day (negative = loss, positive = depeg recovery) */
+export interface StressEvent {
+    date: string;
+    type: StressShockType;
+    protocol: string;
+    assetSymbol: string;
+    impactUsd: number;
+    note?: string;
+}
+
+/** One scenario re-run on the base case's data, reported as the delta against it */
+export interface StressTestResult {
+    name: string;
+    description?: string;
+    /** Shocks with their dates resolved against the backtest range */
+    shocks: StressShock[];
+    finalAmountUsd: number;
+    totalReturnPercent: number;
+    annualizedApyPercent: number;
+    maxDrawdownPercent: number;
+    deltaVsBase: {
+        finalAmountUsd: number;
+        totalReturnPercent: number;
+        annualizedApyPercent: number;
+        maxDrawdownPercent: number;
+    };
+    breakdown: { protocol: string; assetSymbol: string; finalUsd: number; deltaUsd: number }[];
+    events: StressEvent[];
+}
+
+/** Value shocks that start (or depegs that end) on one day */
+export type StressSchedule = Map<string, { shock: StressShock; recovery: boolean }[]>;
+
+/** Constituents hit by a stablecoin_depeg shock without an explicit assetSymbol */
+const STABLECOINS = ['USDC', 'USDT', 'DAI', 'xcUSDC', 'xcUSDT'];
+
+// ─── Stress scenarios ────────────────────────────────────────────────────────
+
+/** Shock dates default to the middle of the range; shocks keep their order */
+export function resolveStressShocks(shocks: StressShock[], days: string[]): StressShock[] {
+    const midpoint = days[Math.floor((days.length - 1) / 2)];
+    return shocks.map(shock => ({ ...shock, date: (shock.date ?? midpoint).slice(0, 10) }));
+}
+
+/** Day → value shocks that start on it, plus depegs that end on it */
+export function scheduleStressShocks(shocks: StressShock[], days: string[]): StressSchedule {
+    const schedule: StressSchedule = new Map();
+    const add = (day: string, shock: StressShock, recovery: boolean) => {
+        if (!schedule.has(day)) schedule.set(day, []);
+        schedule.get(day).push({ shock, recovery });
+    };
+    for (const shock of shocks) {
+        if (shock.type === StressShockType.REWARD_APY_ZERO) continue;
+        add(shock.date, shock, false);
+        const isDepeg = shock.type === StressShockType.DEPEG || shock.type === StressShockType.STABLECOIN_DEPEG;
+        const endIdx = days.indexOf(shock.date) + (shock.days ?? Infinity);
+        if (isDepeg && endIdx < days.length) add(days[endIdx], shock, true);
+    }
+    return schedule;
+}
+
+/** reward_apy_zero shocks: set the earliest halt date on every allocation they cover */
+export function haltStressedRewards(shocks: StressShock[], states: AllocState[]): void {
+    for (const shock of shocks) {
+        if (shock.type !== StressShockType.REWARD_APY_ZERO) continue;
+        for (const state of states) {
+            if (shock.protocol && shock.protocol.toLowerCase() !== state.protocol.toLowerCase()) continue;
+            if (!state.rewardsHaltedFrom || shock.date < state.rewardsHaltedFrom) state.rewardsHaltedFrom = shock.date;
+        }
+    }
+}
+
+/** Share of a position a shock hits: 1 for its protocol's positions, the token's LP share for depegs */
+function stressExposure(state: AllocState, shock: StressShock): number {
+    if (shock.type === StressShockType.PROTOCOL_LOSS) {
+        return shock.protocol.toLowerCase() === state.protocol.toLowerCase() ? 1 : 0;
+    }
+    if (shock.protocol && shock.protocol.toLowerCase() !== state.protocol.toLowerCase()) return 0;
+    const constituents = splitLpSymbol(state.assetSymbol);
+    const hit = shock.assetSymbol ? [shock.assetSymbol] : STABLECOINS;
+    return constituents.filter(t => hit.includes(t)).length / constituents.length;
+}
+
+/**
+ * A protocol loss haircuts positions and pending rewards for good. A depeg marks positions
+ * down by percent × exposure and back up by the same factor when it ends — capital bought
+ * during the depeg gains on the recovery. A 100% depeg never recovers.
+ */
+export function applyStressShock(states: AllocState[], shock: StressShock, recovery: boolean, day: string, events: StressEvent[]): void {
+    for (const state of states) {
+        const cut = (shock.percent / 100) * stressExposure(state, shock);
+        if (cut <= 0 || (recovery && cut >= 1)) continue;
+
+        let impactUsd: number;
+        if (shock.type === StressShockType.PROTOCOL_LOSS) {
+            impactUsd = -(state.valueUsd + state.unclaimedRewardsUsd) * cut;
+            state.valueUsd *= 1 - cut;
+            state.unclaimedRewardsUsd *= 1 - cut;
+            if (state.rewardToken) state.rewardToken.pendingUnits *= 1 - cut;
+        } else {
+            const factor = recovery ? 1 / (1 - cut) : 1 - cut;
+            impactUsd = state.valueUsd * (factor - 1);
+            state.valueUsd *= factor;
+        }
+        if (impactUsd === 0) continue;
+        events.push({
+            date: day,
+            type: shock.type,
+            protocol: state.protocol,
+            assetSymbol: state.assetSymbol,
+            impactUsd: parseFloat(impactUsd.toFixed(4)),
+            ...(recovery && { note: 'depeg recovered' }),
+        });
+    }
+}
@@ -0,0 +1,176 @@
+import { XCM_CONFIG } from '../../config/xcm.config';
+import { AllocState } from './backtest.service';
+
+// ─── DTOs ───────────────────────────────────────────────────────────────────
+
+/**
+ * How rebalancing handles Bifrost vToken staking positions (vDOT, vKSM...):
+ *   instant = vTokens trade like any other asset — no mint/redeem fee, no unbonding (default)
+ *   redeem  = buys pay the mint fee; sells pay the redeem fee and the proceeds earn nothing
+ *             until the unbonding period is over
+ *   dex     = buys pay the mint fee; sells go through a DEX at the token's discount, no waiting
+ */
+export enum VTokenExitMode {
+    INSTANT = 'instant',
+    REDEEM = 'redeem',
+    DEX = 'dex',
+}
+
+/** One vToken leg of a rebalance (redeem / dex mode) */
+export interface VTokenTrade {
+    assetSymbol: string;
+    action: 'mint' | 'redeem' | 'dex_sell';
+    amountUsd: number;
+    /** Mint / redeem fee or DEX discount */
+    costUsd: number;
+    /** Redeem only: proceeds sit idle for this long */
+    unbondingDays: number;
+}
+
+/** Net cross-chain move of rebalance capital between two networks */
+export interface XcmTransfer {
+    fromNetwork: string;
+    toNetwork: string;
+    /** Networks the funds pass through, endpoints included (hub hop when no direct route) */
+    path: string[];
+    amountUsd: number;
+    feeUsd: number;
+    /** Capital is idle (earns nothing) for this long after the trade */
+    transferMinutes: number;
+}
+
+// ─── XCM transfers ───────────────────────────────────────────────────────────
+
+export function networkOf(protocol: string): string {
+    const key = protocol.toLowerCase();
+    return XCM_CONFIG.PROTOCOL_NETWORKS[key] ?? key;
+}
+
+/**
+ * Direct route from XCM_CONFIG, else two hops through the hub (fees and times add up),
+ * else the flat fallback route.
+ */
+function resolveXcmRoute(from: string, to: string): { path: string[]; feeUsd: number; transferMinutes: number } {
+    const find = (a: string, b: string) => XCM_CONFIG.ROUTES.find(r => r.from === a && r.to === b);
+    const direct = find(from, to);
+    if (direct) return { path: [from, to], feeUsd: direct.feeUsd, transferMinutes: direct.transferMinutes };
+
+    const hub = XCM_CONFIG.HUB_NETWORK;
+    const toHub = find(from, hub);
+    const fromHub = find(hub, to);
+    if (toHub && fromHub) {
+        return {
+            path: [from, hub, to],
+            feeUsd: toHub.feeUsd + fromHub.feeUsd,
+            transferMinutes: toHub.transferMinutes + fromHub.transferMinutes,
+        };
+    }
+    return { path: [from, to], ...XCM_CONFIG.FALLBACK_ROUTE };
+}
+
+/**
+ * Net the trades per network and match selling networks to buying ones, largest first.
+ * Trades that stay on one network (e.g. vDOT → vKSM on Bifrost) need no transfer.
+ * `flatFeeUsd` overrides the route fee for every transfer.
+ */
+export function planXcmTransfers(trades: { state: AllocState; tradeUsd: number }[], flatFeeUsd?: number): XcmTransfer[] {
+    const netByNetwork = new Map<string, number>();
+    for (const t of trades) netByNetwork.set(t.state.network, (netByNetwork.get(t.state.network) ?? 0) + t.tradeUsd);
+
+    const byAmount = (a: { usd: number }, b: { usd: number }) => b.usd - a.usd;
+    const sources = [...netByNetwork].filter(([, usd]) => usd < -1e-9).map(([network, usd]) => ({ network, usd: -usd })).sort(byAmount);
+    const sinks = [...netByNetwork].filter(([, usd]) => usd > 1e-9).map(([network, usd]) => ({ network, usd })).sort(byAmount);
+
+    const transfers: XcmTransfer[] = [];
+    let si = 0;
+    let ki = 0;
+    while (si < sources.length && ki < sinks.length) {
+        const source = sources[si];
+        const sink = sinks[ki];
+        const amountUsd = Math.min(source.usd, sink.usd);
+        const route = resolveXcmRoute(source.network, sink.network);
+        transfers.push({
+            fromNetwork: source.network,
+            toNetwork: sink.network,
+            path: route.path,
+            amountUsd,
+            feeUsd: flatFeeUsd ?? route.feeUsd,
+            transferMinutes: route.transferMinutes,
+        });
+        source.usd -= amountUsd;
+        sink.usd -= amountUsd;
+        if (source.usd <= 1e-9) si++;
+        if (sink.usd <= 1e-9) ki++;
+    }
+    return transfers;
+}
+
+/** Split each transfer over the buying allocations on its destination network, pro rata to their buys */
+export function queueInTransit(trades: { state: AllocState; tradeUsd: number }[], transfers: XcmTransfer[]): void {
+    for (const transfer of transfers) {
+        const buyers = trades.filter(t => t.tradeUsd > 0 && t.state.network === transfer.toNetwork);
+        const bought = buyers.reduce((s, t) => s + t.tradeUsd, 0);
+        if (bought <= 0 || transfer.transferMinutes <= 0) continue;
+        for (const t of buyers) {
+            t.state.inTransit.push({
+                amountUsd: transfer.amountUsd * (t.tradeUsd / bought),
+                idleDaysLeft: transfer.transferMinutes / (24 * 60),
+            });
+        }
+    }
+}
+
+// ─── vToken mint / redeem ────────────────────────────────────────────────────
+
+/**
+ * Mint / redeem legs of a rebalance. Buying into a vToken mints it; selling out either
+ * redeems (fee + unbonding) or sells on a DEX at the token's usual discount.
+ */
+export function planVTokenTrades(trades: { state: AllocState; tradeUsd: number }[], mode: VTokenExitMode): VTokenTrade[] {
+    if (mode === VTokenExitMode.INSTANT) return [];
+    const legs: VTokenTrade[] = [];
+    for (const { state, tradeUsd } of trades) {
+        const vToken = state.vToken;
+        if (!vToken) continue;
+        const amountUsd = Math.abs(tradeUsd);
+        if (tradeUsd > 0) {
+            legs.push({ assetSymbol: vToken.symbol, action: 'mint', amountUsd, costUsd: amountUsd * vToken.mintFeePercent / 100, unbondingDays: 0 });
+        } else if (mode === VTokenExitMode.REDEEM) {
+            legs.push({
+                assetSymbol: vToken.symbol,
+                action: 'redeem',
+                amountUsd,
+                costUsd: amountUsd * vToken.redeemFeePercent / 100,
+                unbondingDays: vToken.unbondingDays,
+            });
+        } else {
+            legs.push({ assetSymbol: vToken.symbol, action: 'dex_sell', amountUsd, costUsd: amountUsd * vToken.dexDiscountPercent / 100, unbondingDays: 0 });
+        }
+    }
+    return legs;
+}
+
+/** Redeemed capital reaches the buying allocations only after unbonding — split pro rata to their buys */
+export function queueUnbonding(trades: { state: AllocState; tradeUsd: number }[], vTokenTrades: VTokenTrade[]): void {
+    const buyers = trades.filter(t => t.tradeUsd > 0);
+    const bought = buyers.reduce((s, t) => s + t.tradeUsd, 0);
+    if (bought <= 0) return;
+    for (const leg of vTokenTrades) {
+        if (leg.unbondingDays <= 0) continue;
+        for (const t of buyers) {
+            t.state.inTransit.push({ amountUsd: leg.amountUsd * (t.tradeUsd / bought), idleDaysLeft: leg.unbondingDays });
+        }
+    }
+}
+
+/**
+ * USD-days of this allocation that sit out today's growth, advancing its transit queue
+ * by one day. Capped at the position value — it may have been sold down since.
+ */
+export function takeIdleCapital(state: AllocState): number {
+    if (state.inTransit.length === 0) return 0;
+    const idleUsd = state.inTransit.reduce((s, item) => s + item.amountUsd * Math.min(1, item.idleDaysLeft), 0);
+    for (const item of state.inTransit) item.idleDaysLeft -= 1;
+    state.inTransit = state.inTransit.filter(item => item.idleDaysLeft > 0);
+    return Math.min(Math.max(0, state.valueUsd), idleUsd);
+}
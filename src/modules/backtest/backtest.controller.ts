@@ -2,21 +2,31 @@ import {
     Controller,
     Get,
     Post,
+    Delete,
     Body,
     Query,
+    Param,
+    Res,
+    Headers,
     HttpCode,
     HttpStatus,
+    StreamableFile,
+    BadRequestException,
 } from '@nestjs/common';
 import {
     ApiTags,
     ApiOperation,
     ApiQuery,
+    ApiParam,
     ApiBody,
     ApiProperty,
     ApiExtraModels,
+    ApiProduces,
+    OmitType,
 } from '@nestjs/swagger';
 import {
     IsNumber,
+    IsInt,
     IsString,
     IsDateString,
     IsArray,
@@ -27,14 +37,89 @@ import {
     Min,
     Max,
     ArrayMinSize,
+    ArrayMaxSize,
+    ValidateIf,
 } from 'class-validator';
 import { Type } from 'class-transformer';
-import { BacktestService, PoolType } from './backtest.service';
+import { Response } from 'express';
+import {
+    BacktestService,
+    PoolType,
+    IlMode,
+    RebalanceMode,
+    BenchmarkType,
+    ValuationMode,
+    GapPolicy,
+    ApyFallbackLevel,
+    RotationRankMetric,
+} from './backtest.service';
+import { HarvestPolicy } from './backtest-reward-token';
+import { StressShockType } from './backtest-stress';
+import { VTokenExitMode } from './backtest-transfers';
+import { BacktestRunService } from './backtest-run.service';
+import { BacktestAnalysisService, SweepRankMetric } from './backtest-analysis.service';
 import { StrategyService } from './strategy.service';
+import { StressScenarioService } from './stress-scenario.service';
 import { Public } from '../../common/decorators/public.decorator';
+import { ExportService, ExportFormat } from '../../common/services/export.service';
 
 // ─── DTO classes for Swagger + validation ────────────────────────────────────
 
+class LeverageConfigDto {
+    @ApiProperty({ example: 60, description: 'Borrow / collateral after each loop (%), below the liquidation threshold' })
+    @IsNumber()
+    @Min(1)
+    @Max(99)
+    targetLtvPercent: number;
+
+    @ApiProperty({ example: 3, description: 'Borrow → swap → resupply iterations (1-10)' })
+    @IsInt()
+    @Min(1)
+    @Max(10)
+    loops: number;
+
+    @ApiProperty({ example: 'DOT', description: 'Asset borrowed on the same protocol and swapped back into the collateral' })
+    @IsString()
+    borrowAssetSymbol: string;
+
+    @ApiProperty({ example: 80, required: false, description: 'Liquidation threshold % (default: 80)' })
+    @IsOptional()
+    @IsNumber()
+    @Min(1)
+    @Max(99)
+    liquidationThresholdPercent?: number;
+
+    @ApiProperty({ example: 10, required: false, description: 'Liquidation penalty % on repaid debt (default: 10)' })
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    @Max(50)
+    liquidationPenaltyPercent?: number;
+
+    @ApiProperty({ example: 6, required: false, description: 'Borrow APY % used when the pool history has no borrow APY' })
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    borrowApyPercent?: number;
+}
+
+class RewardTokenConfigDto {
+    @ApiProperty({ example: 'BNC', description: 'Token the farm emits; priced daily from token_prices' })
+    @IsString()
+    symbol: string;
+
+    @ApiProperty({
+        enum: HarvestPolicy,
+        enumName: 'HarvestPolicy',
+        example: HarvestPolicy.SELL,
+        required: false,
+        description: '"reinvest" (default) compounds into the pool, "sell" swaps to stable, "hold" keeps the tokens',
+    })
+    @IsOptional()
+    @IsEnum(HarvestPolicy)
+    policy?: HarvestPolicy;
+}
+
 class BacktestAllocationDto {
     @ApiProperty({ example: 'hydration', description: 'Protocol name' })
     @IsString()
@@ -60,6 +145,170 @@ class BacktestAllocationDto {
     @IsOptional()
     @IsEnum(PoolType)
     poolType?: PoolType;
+
+    @ApiProperty({
+        type: LeverageConfigDto,
+        required: false,
+        description: 'Lending pools only: loop the position (e.g. supply vDOT, borrow DOT, restake, resupply)',
+    })
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => LeverageConfigDto)
+    leverage?: LeverageConfigDto;
+
+    @ApiProperty({
+        type: RewardTokenConfigDto,
+        required: false,
+        description: 'Farming/dex pools only: track emissions in reward-token units and apply a harvest policy',
+    })
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => RewardTokenConfigDto)
+    rewardToken?: RewardTokenConfigDto;
+}
+
+class CashFlowDto {
+    @ApiProperty({ example: '2026-02-01', description: 'Date of the (first) flow, inside the backtest range' })
+    @IsDateString()
+    date: string;
+
+    @ApiProperty({ example: 100, description: 'USD amount: positive = deposit, negative = withdrawal' })
+    @IsNumber()
+    amountUsd: number;
+
+    @ApiProperty({ example: 30, required: false, description: 'Repeat every N days (omit for a one-off flow)' })
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    repeatEveryDays?: number;
+
+    @ApiProperty({ example: '2026-04-01', required: false, description: 'Last date a recurring flow may occur (default: `to`)' })
+    @IsOptional()
+    @IsDateString()
+    until?: string;
+}
+
+class StressShockDto {
+    @ApiProperty({ enum: StressShockType, enumName: 'StressShockType', example: StressShockType.DEPEG })
+    @IsEnum(StressShockType)
+    type: StressShockType;
+
+    @ApiProperty({ example: '2026-03-01', required: false, description: 'Day the shock hits (default: middle of the backtest range)' })
+    @IsOptional()
+    @IsDateString()
+    date?: string;
+
+    @ApiProperty({ example: 'vDOT', required: false, description: 'depeg: token that loses its peg; stablecoin_depeg: one stablecoin only' })
+    @IsOptional()
+    @IsString()
+    assetSymbol?: string;
+
+    @ApiProperty({ example: 'hydration', required: false, description: 'protocol_loss: protocol hit; other shocks: limit to this protocol' })
+    @IsOptional()
+    @IsString()
+    protocol?: string;
+
+    @ApiProperty({ example: 10, required: false, description: 'Depeg / loss size in % (not used by reward_apy_zero)' })
+    @IsOptional()
+    @IsNumber()
+    @Min(0.01)
+    @Max(100)
+    percent?: number;
+
+    @ApiProperty({ example: 14, required: false, description: 'Depegs: days until the peg recovers (default: never)' })
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    days?: number;
+}
+
+class StressScenarioDto {
+    @ApiProperty({ example: 'vDOT depeg 10% for 14 days' })
+    @IsString()
+    name: string;
+
+    @ApiProperty({ example: 'Liquid-staking discount during a market sell-off', required: false })
+    @IsOptional()
+    @IsString()
+    description?: string;
+
+    @ApiProperty({ type: [StressShockDto] })
+    @IsArray()
+    @ArrayMinSize(1)
+    @ArrayMaxSize(20)
+    @ValidateNested({ each: true })
+    @Type(() => StressShockDto)
+    shocks: StressShockDto[];
+}
+
+class AllocationPhaseDto {
+    @ApiProperty({ example: '2026-03-01', description: 'First day of the phase (after the backtest start, phases in date order)' })
+    @IsDateString()
+    from: string;
+
+    @ApiProperty({
+        type: [BacktestAllocationDto],
+        description: 'Target allocations from `from` on — must sum to 100%',
+        example: [{ protocol: 'moonwell', assetSymbol: 'USDC', percentage: 100, poolType: 'lending' }],
+    })
+    @IsArray()
+    @ArrayMinSize(1)
+    @ValidateNested({ each: true })
+    @Type(() => BacktestAllocationDto)
+    allocations: BacktestAllocationDto[];
+
+    @ApiProperty({ example: 'Lending', required: false, description: 'Name shown in the per-phase report (default: "Phase N")' })
+    @IsOptional()
+    @IsString()
+    label?: string;
+}
+
+class RotationCandidateDto extends OmitType(BacktestAllocationDto, ['percentage'] as const) { }
+
+class RotationRuleDto {
+    @ApiProperty({
+        type: [RotationCandidateDto],
+        description: 'Pools the rule may hold',
+        example: [
+            { protocol: 'bifrost', assetSymbol: 'vDOT', poolType: 'vstaking' },
+            { protocol: 'hydration', assetSymbol: 'DOT-vDOT', poolType: 'farming' },
+            { protocol: 'moonwell', assetSymbol: 'USDC', poolType: 'lending' },
+        ],
+    })
+    @IsArray()
+    @ArrayMinSize(1)
+    @ValidateNested({ each: true })
+    @Type(() => RotationCandidateDto)
+    candidates: RotationCandidateDto[];
+
+    @ApiProperty({ example: 14, required: false, description: 'Re-evaluate every N days (default: 14)' })
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    intervalDays?: number;
+
+    @ApiProperty({ example: 2, required: false, description: 'Hold the N best candidates at equal weight (default: 1)' })
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    topN?: number;
+
+    @ApiProperty({ enum: RotationRankMetric, enumName: 'RotationRankMetric', required: false, description: 'Ranking signal (default: total_apy)' })
+    @IsOptional()
+    @IsEnum(RotationRankMetric)
+    rankBy?: RotationRankMetric;
+
+    @ApiProperty({ example: 7, required: false, description: 'Average the signal over the N days before each decision (default: 7)' })
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    lookbackDays?: number;
+
+    @ApiProperty({ example: 500000, required: false, description: 'Skip pools whose last recorded TVL is below this (pools without TVL data are skipped too)' })
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    minTvlUsd?: number;
 }
 
 class RunBacktestDto {
@@ -78,8 +327,9 @@ class RunBacktestDto {
 
     @ApiProperty({
         type: [BacktestAllocationDto],
+        required: false,
         description:
-            'Capital allocations — percentage must sum to 100.\n\n' +
+            'Capital allocations — percentage must sum to 100. Omit when `rotation` is set.\n\n' +
             '**Pool type effects:**\n' +
             '- `farming` / `dex`: Enables split APY model. `supplyApy` (trading fees) ' +
             'auto-compounds daily into LP value. `rewardApy` (farm emissions) accrues ' +
@@ -89,11 +339,12 @@ class RunBacktestDto {
             { protocol: 'hydration', assetSymbol: 'DOT-ETH', percentage: 100, poolType: 'farming' },
         ],
     })
+    @ValidateIf(o => !o.rotation)
     @IsArray()
     @ArrayMinSize(1)
     @ValidateNested({ each: true })
     @Type(() => BacktestAllocationDto)
-    allocations: BacktestAllocationDto[];
+    allocations?: BacktestAllocationDto[];
 
     @ApiProperty({
         example: 0,
@@ -105,6 +356,50 @@ class RunBacktestDto {
     @Min(0)
     rebalanceIntervalDays?: number;
 
+    @ApiProperty({
+        enum: RebalanceMode,
+        enumName: 'RebalanceMode',
+        example: RebalanceMode.CALENDAR,
+        required: false,
+        description:
+            '- `calendar`: rebalance every `rebalanceIntervalDays` (default).\n' +
+            '- `threshold`: rebalance only when an allocation drifts more than `rebalanceThresholdPercent` ' +
+            'percentage points from its target weight (checked daily).',
+    })
+    @IsOptional()
+    @IsEnum(RebalanceMode)
+    rebalanceMode?: RebalanceMode;
+
+    @ApiProperty({
+        example: 5,
+        required: false,
+        description: '**[threshold mode]** Drift band in percentage points, e.g. 5 → a 60% target rebalances below 55% or above 65%. Defaults to 5.',
+    })
+    @IsOptional()
+    @IsNumber()
+    @Min(0.1)
+    @Max(50)
+    rebalanceThresholdPercent?: number;
+
+    @ApiProperty({
+        example: false,
+        required: false,
+        description: '**[threshold mode]** If true, only trade out-of-band allocations back to the band edge instead of to the exact target.',
+    })
+    @IsOptional()
+    @IsBoolean()
+    partialRebalance?: boolean;
+
+    @ApiProperty({
+        example: 10,
+        required: false,
+        description: 'Skip rebalance trades smaller than this USD amount. Applies to both modes. Defaults to 0.',
+    })
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    minTradeSizeUsd?: number;
+
     @ApiProperty({
         example: true,
         required: false,
@@ -144,22 +439,101 @@ class RunBacktestDto {
         example: false,
         required: false,
         description:
-            'Apply Impermanent Loss estimation for DEX/farming pools at end of period.',
+            'Apply Impermanent Loss for DEX/farming LP pairs at end of period, computed from the ' +
+            'real start/end TokenPrice of each constituent (missing ranges are backfilled from DeFiLlama). ' +
+            'Single-asset pools have no IL; pairs without price data get an `ilWarning` and no IL.',
     })
     @IsOptional()
     @IsBoolean()
     includeIL?: boolean;
 
+    @ApiProperty({
+        enum: IlMode,
+        enumName: 'IlMode',
+        example: IlMode.END_OF_PERIOD,
+        required: false,
+        description:
+            'When IL is applied (requires `includeIL=true`).\n' +
+            '- `end_of_period`: one haircut from start/end prices after the simulation (default).\n' +
+            '- `daily`: DEX/farming LP allocations are revalued every day against their entry price ratio ' +
+            '(reset on rebalance), so `timeSeries`, `maxDrawdownPercent` and `sharpeRatio` include IL.',
+    })
+    @IsOptional()
+    @IsEnum(IlMode)
+    ilMode?: IlMode;
+
     @ApiProperty({
         example: 0.5,
         required: false,
-        description: 'XCM fee in USD deducted per rebalance event.',
+        description:
+            'Flat XCM fee in USD per cross-network transfer. Omit to use the per-route fees ' +
+            'of the XCM route registry (Bifrost, Hydration, Moonbeam, Asset Hub).',
     })
     @IsOptional()
     @IsNumber()
     @Min(0)
     xcmFeeUsd?: number;
 
+    @ApiProperty({
+        enum: VTokenExitMode,
+        enumName: 'VTokenExitMode',
+        example: VTokenExitMode.REDEEM,
+        required: false,
+        description:
+            'How rebalances trade Bifrost vTokens: "instant" (default, free), "redeem" (mint/redeem fee + unbonding ' +
+            'period with idle capital) or "dex" (mint fee, sells at a DEX discount)',
+    })
+    @IsOptional()
+    @IsEnum(VTokenExitMode)
+    vTokenExit?: VTokenExitMode;
+
+    @ApiProperty({
+        example: true,
+        required: false,
+        description: 'Scale each pool\'s reward APY by TVL / (TVL + position) using `tvlUsd` from pool history (default: false)',
+    })
+    @IsOptional()
+    @IsBoolean()
+    tvlDilution?: boolean;
+
+    @ApiProperty({
+        example: 10,
+        required: false,
+        description: 'Warn when a position exceeds this % of its pool\'s TVL; also sizes `summary.strategyCapacityUsd` (default: 10)',
+    })
+    @IsOptional()
+    @IsNumber()
+    @Min(0.01)
+    @Max(100)
+    maxPoolSharePercent?: number;
+
+    @ApiProperty({
+        type: [StressScenarioDto],
+        required: false,
+        description:
+            'Inline stress scenarios. Each one re-runs the backtest with its shocks on the same data; ' +
+            'the response adds `stressTests` with the delta versus the base case.',
+        example: [{ name: 'vDOT depeg', shocks: [{ type: 'depeg', assetSymbol: 'vDOT', percent: 10, days: 14 }] }],
+    })
+    @IsOptional()
+    @IsArray()
+    @ArrayMaxSize(10)
+    @ValidateNested({ each: true })
+    @Type(() => StressScenarioDto)
+    stressScenarios?: StressScenarioDto[];
+
+    @ApiProperty({
+        type: [String],
+        required: false,
+        description: 'Saved or preset scenarios (`GET /backtest/stress-scenarios`), run after the inline ones',
+        example: ['preset:vdot-depeg-10'],
+    })
+    @IsOptional()
+    @IsArray()
+    @ArrayMaxSize(10)
+    @IsString({ each: true })
+    stressScenarioIds?: string[];
+
     @ApiProperty({
         example: 0.5,
         required: false,
@@ -172,6 +546,139 @@ class RunBacktestDto {
     @Min(0)
     @Max(5)
     slippageTolerancePercent?: number;
+
+    @ApiProperty({
+        enum: BenchmarkType,
+        enumName: 'BenchmarkType',
+        isArray: true,
+        required: false,
+        example: [BenchmarkType.HODL, BenchmarkType.VDOT, BenchmarkType.RISK_FREE],
+        description:
+            'Reference series computed over the same calendar.\n' +
+            '- `hodl`: hold the base tokens of the allocations (LP pairs split evenly), priced from `token_prices`.\n' +
+            '- `vdot`: 100% bifrost/vDOT staking.\n' +
+            '- `risk_free`: 5% APY compounded daily.\n' +
+            'Each benchmark returns excess return, tracking error, information ratio, alpha and beta.',
+    })
+    @IsOptional()
+    @IsArray()
+    @IsEnum(BenchmarkType, { each: true })
+    benchmarks?: BenchmarkType[];
+    @ApiProperty({
+        enum: ValuationMode,
+        enumName: 'ValuationMode',
+        example: ValuationMode.USD,
+        required: false,
+        description:
+            '- `usd`: allocations are USD balances that only grow by APY (default).\n' +
+            '- `token_units`: USD is converted to token quantities at entry (`token_prices`), quantities grow by yield ' +
+            'and are marked to market daily. LP pairs move with the geometric mean of their constituents, which already ' +
+            'contains IL, so no separate IL haircut is applied. `summary.returnAttribution` splits return into yield vs price.',
+    })
+    @IsOptional()
+    @IsEnum(ValuationMode)
+    valuationMode?: ValuationMode;
+
+    @ApiProperty({
+        example: 'USD',
+        required: false,
+        description: 'Currency for `summary.denominated` and `timeSeries[].valueInReportCurrency`: `USD` (default) or a token symbol such as `DOT`.',
+    })
+    @IsOptional()
+    @IsString()
+    reportCurrency?: string;
+    @ApiProperty({
+        enum: GapPolicy,
+        enumName: 'GapPolicy',
+        example: GapPolicy.FORWARD_FILL,
+        required: false,
+        description:
+            'How days without a usable APY record are filled (0% supply + 0% reward records count as gaps).\n' +
+            '- `forward_fill`: last real value (default).\n' +
+            '- `linear`: interpolate between the surrounding real values.\n' +
+            '- `zero`: 0% APY.\n' +
+            '- `synthetic_floor`: seeded 5–8% supply APY, reproducible via `gapSeed`.\n' +
+            'Each breakdown entry reports `coverage` (real / filled / synthetic / missing days).',
+    })
+    @IsOptional()
+    @IsEnum(GapPolicy)
+    gapPolicy?: GapPolicy;
+
+    @ApiProperty({ example: 0, required: false, description: 'Seed for `gapPolicy: "synthetic_floor"` (default 0)' })
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    gapSeed?: number;
+
+    @ApiProperty({
+        type: [CashFlowDto],
+        required: false,
+        description:
+            'Deposits / withdrawals after the initial investment, split across allocations by target weight.\n' +
+            '`summary.totalReturnPercent` and `annualizedApyPercent` become time-weighted; ' +
+            '`summary.cashFlows` adds the money-weighted return (IRR). Flow days carry `cashFlowUsd` in `timeSeries`.',
+        example: [{ date: '2026-01-15', amountUsd: 100, repeatEveryDays: 30 }],
+    })
+    @IsOptional()
+    @IsArray()
+    @ValidateNested({ each: true })
+    @Type(() => CashFlowDto)
+    cashFlows?: CashFlowDto[];
+
+    @ApiProperty({
+        type: [AllocationPhaseDto],
+        required: false,
+        description:
+            'Dated target changes; `allocations` is the opening phase. On each switch pending farm rewards are ' +
+            'harvested (`compoundFeeUsd`) and the portfolio is traded to the new targets (`xcmFeeUsd` + slippage). ' +
+            'The response adds `phases` with per-phase performance.',
+        example: [{ from: '2026-03-01', label: 'Lending', allocations: [{ protocol: 'moonwell', assetSymbol: 'USDC', percentage: 100, poolType: 'lending' }] }],
+    })
+    @IsOptional()
+    @IsArray()
+    @ValidateNested({ each: true })
+    @Type(() => AllocationPhaseDto)
+    phases?: AllocationPhaseDto[];
+
+    @ApiProperty({
+        type: RotationRuleDto,
+        required: false,
+        description:
+            'Rule-based rotation instead of fixed `allocations`: every `intervalDays`, hold the `topN` candidates ' +
+            'with the best average `rankBy` over the `lookbackDays` before the decision (no lookahead). ' +
+            'Switches harvest rewards and pay `xcmFeeUsd` + slippage. The response adds `rotation.decisions`.',
+    })
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => RotationRuleDto)
+    rotation?: RotationRuleDto;
+
+    @ApiProperty({
+        example: false,
+        required: false,
+        description:
+            'Require exact `protocol/assetSymbol` APY history for every allocation. ' +
+            'Any allocation without it fails the request with 422 `MissingExactData` instead of using a fallback.',
+    })
+    @IsOptional()
+    @IsBoolean()
+    strictData?: boolean;
+
+    @ApiProperty({
+        enum: ApyFallbackLevel,
+        enumName: 'ApyFallbackLevel',
+        isArray: true,
+        required: false,
+        example: [ApyFallbackLevel.PROTOCOL, ApyFallbackLevel.SNAPSHOT],
+        description:
+            'Fallback levels to skip when exact history is missing: `asset` (same token, other protocol), ' +
+            '`underlying` (vDOT → DOT), `lp_constituent`, `protocol` (protocol-wide), `snapshot` (current APY). ' +
+            'Every breakdown entry reports the `provenance` actually used.',
+    })
+    @IsOptional()
+    @IsArray()
+    @IsEnum(ApyFallbackLevel, { each: true })
+    disabledFallbacks?: ApyFallbackLevel[];
 }
 
 // ─── Extra DTOs ──────────────────────────────────────────────────────────────
@@ -208,6 +715,213 @@ class SuggestStrategiesQueryDto {
     refresh?: boolean;
 }
 
+class ListBacktestRunsQueryDto {
+    @ApiProperty({ required: false, example: 1, description: 'Page number (1-based)' })
+    @IsOptional()
+    @IsNumber()
+    @Min(1)
+    @Type(() => Number)
+    page?: number;
+
+    @ApiProperty({ required: false, example: 20, description: 'Page size (max 100)' })
+    @IsOptional()
+    @IsNumber()
+    @Min(1)
+    @Max(100)
+    @Type(() => Number)
+    limit?: number;
+
+    @ApiProperty({
+        enum: ['pending', 'running', 'done', 'error'],
+        required: false,
+        description: 'Filter runs by status',
+    })
+    @IsOptional()
+    @IsEnum(['pending', 'running', 'done', 'error'])
+    status?: 'pending' | 'running' | 'done' | 'error';
+}
+
+class SweepRangeDto {
+    @ApiProperty({ required: false, example: [1, 3, 7, 14], description: 'Explicit values to test (takes precedence over min/max/step)' })
+    @IsOptional()
+    @IsArray()
+    @ArrayMinSize(1)
+    @ArrayMaxSize(50)
+    @IsNumber({}, { each: true })
+    values?: number[];
+
+    @ApiProperty({ required: false, example: 1, description: 'Range start (inclusive)' })
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    min?: number;
+
+    @ApiProperty({ required: false, example: 14, description: 'Range end (inclusive)' })
+    @IsOptional()
+    @IsNumber()
+    @Min(0)
+    max?: number;
+
+    @ApiProperty({ required: false, example: 1, description: 'Range step (default 1)' })
+    @IsOptional()
+    @IsNumber()
+    @Min(0.01)
+    step?: number;
+}
+
+class SweepParametersDto {
+    @ApiProperty({ type: SweepRangeDto, required: false, example: { values: [1, 3, 7, 14] } })
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => SweepRangeDto)
+    compoundFrequencyDays?: SweepRangeDto;
+
+    @ApiProperty({ type: SweepRangeDto, required: false, example: { min: 0, max: 30, step: 15 } })
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => SweepRangeDto)
+    rebalanceIntervalDays?: SweepRangeDto;
+
+    @ApiProperty({ type: SweepRangeDto, required: false, example: { values: [0.1, 0.5, 1] } })
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => SweepRangeDto)
+    slippageTolerancePercent?: SweepRangeDto;
+}
+
+class RunSweepDto {
+    @ApiProperty({ type: RunBacktestDto, description: 'Base backtest config — swept parameters override its values' })
+    @ValidateNested()
+    @Type(() => RunBacktestDto)
+    backtest: RunBacktestDto;
+
+    @ApiProperty({ type: SweepParametersDto, description: 'Ranges to sweep. Combinations = cartesian product (max 500).' })
+    @ValidateNested()
+    @Type(() => SweepParametersDto)
+    parameters: SweepParametersDto;
+
+    @ApiProperty({
+        enum: SweepRankMetric,
+        enumName: 'SweepRankMetric',
+        required: false,
+        example: SweepRankMetric.ANNUALIZED_APY,
+        description: 'Metric used to rank combinations (higher is better; drawdown is negative so shallower ranks first)',
+    })
+    @IsOptional()
+    @IsEnum(SweepRankMetric)
+    rankBy?: SweepRankMetric;
+}
+
+class RollingWalkForwardDto {
+    @ApiProperty({ example: 60, description: 'In-sample days before each window used to pick the parameters' })
+    @IsInt()
+    @Min(2)
+    trainDays: number;
+
+    @ApiProperty({ type: SweepParametersDto, description: 'Parameter grid evaluated in-sample (same format as /backtest/sweep)' })
+    @ValidateNested()
+    @Type(() => SweepParametersDto)
+    parameters: SweepParametersDto;
+
+    @ApiProperty({ enum: SweepRankMetric, enumName: 'SweepRankMetric', required: false, example: SweepRankMetric.ANNUALIZED_APY })
+    @IsOptional()
+    @IsEnum(SweepRankMetric)
+    rankBy?: SweepRankMetric;
+}
+
+class RunRollingDto {
+    @ApiProperty({ type: RunBacktestDto, description: 'Backtest config — `from`/`to` bound the whole study period' })
+    @ValidateNested()
+    @Type(() => RunBacktestDto)
+    backtest: RunBacktestDto;
+
+    @ApiProperty({ required: false, example: 90, description: 'Window length in days (default 90)' })
+    @IsOptional()
+    @IsInt()
+    @Min(2)
+    windowDays?: number;
+
+    @ApiProperty({ required: false, example: 7, description: 'Days between consecutive window starts (default 7)' })
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    stepDays?: number;
+
+    @ApiProperty({
+        type: RollingWalkForwardDto,
+        required: false,
+        description: 'Enable walk-forward: the first window starts after `trainDays`, each window uses the best in-sample parameters',
+    })
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => RollingWalkForwardDto)
+    walkForward?: RollingWalkForwardDto;
+}
+
+class CompareStrategyDto {
+    @ApiProperty({ example: 'Conservative', description: 'Unique label used in the metrics table and chart series' })
+    @IsString()
+    name: string;
+
+    @ApiProperty({
+        type: [BacktestAllocationDto],
+        example: [{ protocol: 'bifrost', assetSymbol: 'vDOT', percentage: 100, poolType: 'vstaking' }],
+    })
+    @IsArray()
+    @ArrayMinSize(1)
+    @ValidateNested({ each: true })
+    @Type(() => BacktestAllocationDto)
+    allocations: BacktestAllocationDto[];
+}
+
+class CompareSettingsDto extends OmitType(RunBacktestDto, ['allocations', 'phases', 'rotation'] as const) { }
+
+class RunCompareDto {
+    @ApiProperty({ type: CompareSettingsDto, description: 'Settings shared by every strategy (same fields as /backtest/run minus allocations)' })
+    @ValidateNested()
+    @Type(() => CompareSettingsDto)
+    settings: CompareSettingsDto;
+
+    @ApiProperty({ type: [CompareStrategyDto], description: '2–10 named allocation sets' })
+    @IsArray()
+    @ArrayMinSize(2)
+    @ArrayMaxSize(10)
+    @ValidateNested({ each: true })
+    @Type(() => CompareStrategyDto)
+    strategies: CompareStrategyDto[];
+}
+
+class RunMonteCarloDto {
+    @ApiProperty({ type: RunBacktestDto, description: 'Backtest config whose historical APY series is resampled' })
+    @ValidateNested()
+    @Type(() => RunBacktestDto)
+    backtest: RunBacktestDto;
+
+    @ApiProperty({ required: false, example: 500, description: 'Number of simulated paths (max 2000)' })
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    @Max(2000)
+    paths?: number;
+
+    @ApiProperty({
+        required: false,
+        example: 7,
+        description: 'Block length in days for the block bootstrap — longer blocks keep more autocorrelation',
+    })
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    @Max(365)
+    blockSizeDays?: number;
+
+    @ApiProperty({ required: false, example: 42, description: 'PRNG seed for reproducible results (random if omitted, echoed back)' })
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    seed?: number;
+}
+
 // ─── Controller ───────────────────────────────────────────────────────────────
 
 @ApiTags('Backtest')
@@ -215,7 +929,11 @@ class SuggestStrategiesQueryDto {
 export class BacktestController {
     constructor(
         private readonly backtestService: BacktestService,
+        private readonly backtestRunService: BacktestRunService,
+        private readonly backtestAnalysisService: BacktestAnalysisService,
         private readonly strategyService: StrategyService,
+        private readonly exportService: ExportService,
+        private readonly stressScenarioService: StressScenarioService,
     ) { }
 
     /**
@@ -334,12 +1052,357 @@ APY tổng = \`supplyApy + rewardApy\`, compound hàng ngày (hành vi giống v
 
 ### 📉 Impermanent Loss (\`includeIL: true\`)
 
-Áp dụng cho DEX/Farming pools vào cuối kỳ.  
-Công thức: \`IL = 2√r / (1 + r) - 1\` (Uniswap v2 AMM formula, r = price ratio).
+Áp dụng cho DEX/Farming LP pairs vào cuối kỳ, dùng giá thực tế từ \`token_prices\` (tự backfill khi thiếu).  
+Công thức: \`IL = 2√r / (1 + r) - 1\` (Uniswap v2 AMM formula, r = tỉ lệ thay đổi giá giữa 2 token).  
+Nếu không có giá → \`ilWarning\` trong breakdown và IL không được áp dụng.
+
+---
+
+### 💱 Token-unit valuation (\`valuationMode: "token_units"\`)
+
+Quy đổi USD sang số lượng token tại thời điểm vào lệnh, số lượng tăng theo yield và được định giá lại hằng ngày theo \`token_prices\`.
+\`summary.returnAttribution\` tách lợi nhuận thành phần yield và phần biến động giá.
+Dùng \`reportCurrency: "DOT"\` để xem hiệu suất tính theo DOT (\`summary.denominated\`).
+
+---
+
+### 📐 Benchmarks (\`benchmarks: ["hodl", "vdot", "risk_free"]\`)
+
+So sánh với HODL token gốc, 100% vDOT staking và đường lãi suất phi rủi ro (5%/năm).
+Mỗi benchmark trả về \`excessReturnPercent\`, \`trackingErrorPercent\`, \`informationRatio\`, \`alphaPercent\`, \`beta\` và \`timeSeries\`.
+
+---
+
+### 💸 Cash flows (\`cashFlows: [{ date, amountUsd, repeatEveryDays? }]\`)
+
+Nạp thêm (\`amountUsd > 0\`) hoặc rút (\`amountUsd < 0\`) vốn giữa kỳ, chia theo tỷ trọng mục tiêu của từng allocation.
+\`totalReturnPercent\` / \`annualizedApyPercent\` là time-weighted (loại bỏ ảnh hưởng của dòng tiền);
+\`summary.cashFlows.moneyWeightedReturnPercent\` là IRR theo năm của nhà đầu tư.
+
+---
+
+### 🗓️ Allocation phases (\`phases: [{ from, allocations }]\`)
+
+Đổi tỷ trọng theo lịch, ví dụ 60/40 Bifrost/Hydration đến tháng 3 rồi chuyển 100% sang Moonwell lending.
+Mỗi lần chuyển: harvest phần thưởng đang chờ, trả \`xcmFeeUsd\` + slippage, ghi vào \`rebalanceEvents\` với \`trigger: "phase"\`.
+\`phases\` trong kết quả trả về hiệu suất từng giai đoạn (return, annualized, drawdown, chi phí chuyển).
+
+---
+
+### 🔁 Rotation (\`rotation: { candidates, intervalDays, topN, rankBy, minTvlUsd }\`)
+
+Thay cho \`allocations\` cố định: mỗi \`intervalDays\` ngày chọn \`topN\` pool có APY trung bình cao nhất trong \`lookbackDays\` ngày trước đó
+(chỉ dùng dữ liệu trước ngày quyết định), bỏ qua pool có TVL < \`minTvlUsd\`.
+\`rotation.decisions\` ghi lại bảng xếp hạng, danh mục nắm giữ và chi phí của từng lần quyết định.
+
+---
+
+### 🏦 Lending loop (\`allocations[].leverage\`, chỉ cho \`poolType: "lending"\`)
+
+Supply tài sản, vay \`borrowAssetSymbol\` ở \`targetLtvPercent\`, swap lại và supply tiếp \`loops\` lần.
+Borrow APY lấy từ lịch sử (\`borrowApy\`) hoặc \`borrowApyPercent\`; health factor được tính hằng ngày từ \`token_prices\`.
+Khi HF < 1 sẽ bị thanh lý (50% nợ mỗi vòng + penalty). \`breakdown[].leverage\` báo cáo net APY, peak LTV, min HF;
+\`liquidations\` liệt kê các lần bị thanh lý.
+
+---
+
+### 🪙 Reward token (\`allocations[].rewardToken: { symbol, policy }\`, chỉ cho \`poolType: "farming"\`/\`"dex"\`)
+
+Reward APY được quy ra số token \`symbol\` theo giá ngày phát thưởng và định giá lại hằng ngày từ \`token_prices\`,
+nên reward token giảm giá thì phần thưởng chưa claim cũng giảm theo. Khi harvest:
+\`reinvest\` (mặc định) swap và cộng vào pool, \`sell\` bán sang stable (giữ ngoài pool, không compound),
+\`hold\` giữ nguyên token (không slippage, chịu biến động giá). \`breakdown[].rewardToken\` báo cáo giá đầu/cuối,
+số token phát ra, đã bán / đang giữ và \`priceImpactUsd\`; \`summary.rewardTokenPriceImpactUsd\` là tổng.
+Thiếu lịch sử giá → rewards tính theo USD như cũ kèm \`warning\`.
+
+---
+
+### 🌉 XCM transfers
+
+Khi rebalance, các lệnh mua/bán được gộp theo network (Bifrost, Hydration, Moonbeam, Asset Hub) và chỉ phần chênh lệch
+giữa các network mới cần chuyển qua XCM — đổi vDOT → vKSM trên cùng Bifrost không tốn phí XCM.
+Mỗi transfer dùng phí và thời gian của route trong \`XCM_CONFIG\` (không có route trực tiếp → đi qua Asset Hub);
+\`xcmFeeUsd\` nếu được truyền sẽ thay phí route bằng phí cố định mỗi transfer.
+Vốn đang chuyển không sinh lợi nhuận cho đến khi tới nơi. \`rebalanceEvents[].transfers\` liệt kê từng transfer;
+\`summary.xcmTransferCount\` và \`summary.idleCapitalUsdDays\` tổng hợp lại.
+
+---
+
+### 🔓 vToken redeem (\`vTokenExit: "instant" | "redeem" | "dex"\`)
+
+Mặc định (\`instant\`) vDOT/vKSM... trên Bifrost được mua bán tức thì, không phí. Với \`redeem\`, khi rebalance
+mua vào vToken phải trả phí mint, bán ra phải trả phí redeem và số vốn đó không sinh lợi nhuận trong suốt thời gian unbonding
+(vDOT 28 ngày, vKSM 7 ngày...); \`dex\` bán trên DEX với mức chiết khấu thay vì chờ. Phí, unbonding và chiết khấu
+lấy từ \`BIFROST_CONFIG.VTOKENS\`. \`rebalanceEvents[].vTokenTrades\` liệt kê từng lệnh, \`summary.vTokenCostUsd\` là tổng chi phí.
+
+---
+
+### 🏊 TVL dilution (\`tvlDilution: true\`, \`maxPoolSharePercent\`)
+
+Reward APY được chia theo tỷ lệ vốn trong pool: vào \$5M trong pool TVL \$200k chỉ nhận \`TVL / (TVL + position)\` ≈ 4% APY niêm yết.
+TVL lấy từ \`tvlUsd\` trong lịch sử của đúng pool đó (forward-fill theo ngày); supply APY (phí giao dịch, lãi vay) không bị pha loãng.
+\`breakdown[].poolShare\` báo cáo TVL trung bình/thấp nhất, \`peakPoolSharePercent\`, hệ số pha loãng trung bình và \`capacityUsd\`
+(vốn tối đa vẫn dưới \`maxPoolSharePercent\`, mặc định 10%) kèm \`warning\` khi vượt ngưỡng.
+\`summary.strategyCapacityUsd\` là vốn ban đầu lớn nhất mà mọi allocation vẫn nằm dưới ngưỡng.
+
+---
+
+### 🧨 Stress test (\`stressScenarios\`, \`stressScenarioIds\`)
+
+Mỗi scenario chạy lại backtest trên cùng dữ liệu với các cú sốc được đưa vào vòng lặp theo ngày:
+\`depeg\` (\`assetSymbol\` mất \`percent\`% trong \`days\` ngày, LP chịu theo tỷ trọng token), \`stablecoin_depeg\`,
+\`protocol_loss\` (mất vĩnh viễn \`percent\`% mọi vị thế trên \`protocol\`) và \`reward_apy_zero\` (reward APY = 0 từ \`date\`).
+Không truyền \`date\` → cú sốc xảy ra giữa kỳ. \`stressTests[]\` trả về kết quả của từng scenario, \`deltaVsBase\`
+(giá trị cuối, return, APY, drawdown so với base case), chênh lệch theo allocation và \`events\` ghi lại từng cú sốc.
+Scenario có thể lưu qua \`POST /backtest/stress-scenarios\` hoặc dùng preset \`preset:*\` trong \`stressScenarioIds\`.
+
+---
+
+### 📈 Time series
+
+\`timeSeries\` tối đa 500 điểm, downsample bằng LTTB (Largest-Triangle-Three-Buckets) nên giữ được đỉnh và đáy drawdown.
+Mỗi điểm có \`allocations["protocol/assetSymbol/poolType"]\`: \`valueUsd\` (cộng lại = \`totalValueUsd\`, dùng cho stacked-area chart),
+\`supplyApyPercent\`, \`rewardApyPercent\` đã dùng trong ngày và \`unclaimedRewardsUsd\`.
+
+---
+
+### 📒 Ledger (\`ledger\`)
+
+Danh sách mọi giao dịch theo đúng thứ tự xử lý: \`deposit\`, \`withdrawal\`, \`harvest\`, \`reinvest\`, \`rebalance_trade\`,
+\`xcm_fee\`, \`vtoken_fee\`, \`slippage\`, \`il_adjustment\`, \`liquidation\`. Mỗi dòng có ngày, allocation (\`null\` với chi phí chung của danh mục),
+số tiền, \`balanceAfterUsd\` / \`portfolioValueAfterUsd\` sau sự kiện và \`details\` (lý do slippage, route XCM, phí gas...).
+Ledger được lưu cùng run và trả lại qua \`GET /backtest/:runId\`.
+
+---
+
+### 📤 Export (\`?format=csv|ndjson|xlsx\` hoặc header \`Accept\`)
+
+Tải kết quả dạng file: \`summary\` (field/value), \`breakdown\` và **toàn bộ** \`timeSeries\` theo ngày (không downsample 500 điểm).
+CSV trả về file ZIP gồm một file CSV cho mỗi phần (\`summary.csv\`, \`breakdown.csv\`, \`timeSeries.csv\`); NDJSON gắn \`sheet\` vào từng dòng;
+XLSX có một sheet cho mỗi phần. Ô text bắt đầu bằng \`=\`, \`+\`, \`-\`, \`@\` được thêm \`'\` phía trước để không bị chạy như công thức. Object lồng nhau được tách thành cột \`a.b\`. Chỉ hỗ trợ chế độ sync; run vẫn được lưu vào \`backtest_runs\` và \`runId\` được trả trong header \`X-Backtest-Run-Id\`.
+
+---
+
+### ⏳ Async mode (\`?async=true\`)
+
+Trả về ngay \`202 { runId, status: "pending" }\`; kết quả được lưu vào \`backtest_runs\`.
+Poll \`GET /backtest/:runId\` cho đến khi \`status\` là \`done\` hoặc \`error\`.
+Ở chế độ sync, kết quả cũng được lưu và trả kèm \`runId\`.
         `,
     })
+    @ApiQuery({ name: 'async', required: false, type: Boolean, example: false })
+    @ApiQuery({ name: 'format', required: false, enum: ExportFormat, description: 'json (mặc định) | csv | ndjson | xlsx' })
+    @ApiProduces(
+        'application/json',
+        'text/csv',
+        'application/zip',
+        'application/x-ndjson',
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    )
     @ApiBody({ type: RunBacktestDto })
-    async runBacktest(@Body() dto: RunBacktestDto) {
-        return this.backtestService.runBacktest(dto);
+    async runBacktest(
+        @Body() dto: RunBacktestDto,
+        @Query('async') runAsync: string | undefined,
+        @Query('format') format: string | undefined,
+        @Headers('accept') accept: string | undefined,
+        @Res({ passthrough: true }) res: Response,
+    ) {
+        const exportFormat = this.exportService.resolveFormat(format, accept);
+        dto = await this.stressScenarioService.resolveInto(dto);
+        if (runAsync === 'true') {
+            if (exportFormat !== ExportFormat.JSON) {
+                throw new BadRequestException('File export is only available for synchronous runs');
+            }
+            res.status(HttpStatus.ACCEPTED);
+            return this.backtestRunService.enqueue(dto);
+        }
+        if (exportFormat === ExportFormat.JSON) {
+            return this.backtestRunService.runAndStore(dto);
+        }
+
+        const result = await this.backtestRunService.runAndStore(dto, { fullTimeSeries: true });
+        res.setHeader('X-Backtest-Run-Id', result.runId);
+        const file = this.exportService.render(exportFormat, [
+            { name: 'summary', rows: this.exportService.keyValueRows(result.summary) },
+            { name: 'breakdown', rows: result.breakdown },
+            { name: 'timeSeries', rows: result.timeSeries },
+            ...(result.stressTests ? [{ name: 'stressTests', rows: result.stressTests }] : []),
+        ], `backtest-${dto.from.slice(0, 10)}-${dto.to.slice(0, 10)}`);
+        return new StreamableFile(file.body, {
+            type: file.contentType,
+            disposition: `attachment; filename="${file.fileName}"`,
+        });
+    }
+
+    /**
+     * POST /api/v1/backtest/sweep
+     */
+    @Post('sweep')
+    @Public()
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: '🔍 Grid search các tham số backtest',
+        description: `
+Chạy backtest cho mọi tổ hợp của \`compoundFrequencyDays\`, \`rebalanceIntervalDays\` và \`slippageTolerancePercent\`.
+
+- Lịch sử APY chỉ được fetch **một lần** từ \`/pools/history\`, mỗi tổ hợp được mô phỏng lại trong bộ nhớ.
+- Mỗi tham số nhận \`values\` hoặc \`min\`/\`max\`/\`step\`. Tham số không sweep giữ giá trị từ \`backtest\`.
+- Tối đa 500 tổ hợp. Kết quả sắp xếp theo \`rankBy\` (mặc định \`annualizedApyPercent\`), không gồm \`timeSeries\`.
+        `,
+    })
+    @ApiBody({ type: RunSweepDto })
+    async runSweep(@Body() dto: RunSweepDto) {
+        return this.backtestAnalysisService.runSweep(dto);
+    }
+
+    /**
+     * POST /api/v1/backtest/compare
+     */
+    @Post('compare')
+    @Public()
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: '⚖️ So sánh 2–10 chiến lược trên cùng một bộ dữ liệu',
+        description: `
+Chạy nhiều danh mục (\`strategies\`) với cùng \`settings\` trên **một** snapshot \`/pools/history\`,
+đảm bảo mọi chiến lược dùng chung dữ liệu.
+
+Trả về:
+- \`metrics\`: bảng chỉ số (return, APY, drawdown, Sharpe, Sortino, Calmar, volatility, VaR...)
+- \`correlations\`: tương quan Pearson của lợi nhuận ngày giữa từng cặp chiến lược (\`null\` nếu một chuỗi không biến động)
+- \`timeSeries\`: chuỗi giá trị đã căn theo ngày, mỗi chiến lược một cột trong \`values\`
+        `,
+    })
+    @ApiBody({ type: RunCompareDto })
+    async runCompare(@Body() dto: RunCompareDto) {
+        return this.backtestAnalysisService.runCompare(dto);
+    }
+
+    /**
+     * POST /api/v1/backtest/rolling
+     */
+    @Post('rolling')
+    @Public()
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: '🪟 Rolling-window & walk-forward backtest',
+        description: `
+Chạy cùng một danh mục trên mọi cửa sổ \`windowDays\` ngày trong khoảng \`from\`..\`to\`, mỗi cửa sổ cách nhau \`stepDays\` ngày
+(ví dụ: mọi cửa sổ 90 ngày trong năm qua, bước 7 ngày). Lịch sử APY chỉ fetch một lần.
+
+Trả về phân phối (P5..P95, mean, min, max) của \`annualizedApyPercent\`, \`maxDrawdownPercent\`, \`sharpeRatio\`
+và tỉ lệ cửa sổ có lợi nhuận dương.
+
+**Walk-forward** (\`walkForward\`): với mỗi cửa sổ, chọn bộ tham số tốt nhất trên \`trainDays\` ngày ngay trước đó
+(grid giống \`/backtest/sweep\`), rồi áp dụng cho cửa sổ → kết quả out-of-sample, không nhìn trước dữ liệu.
+        `,
+    })
+    @ApiBody({ type: RunRollingDto })
+    async runRolling(@Body() dto: RunRollingDto) {
+        return this.backtestAnalysisService.runRolling(dto);
+    }
+
+    /**
+     * POST /api/v1/backtest/monte-carlo
+     */
+    @Post('monte-carlo')
+    @Public()
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: '🎲 Monte Carlo backtest — dải kết quả thay vì một con số',
+        description: `
+Lấy mẫu lại (block bootstrap) chuỗi APY supply/reward hằng ngày từ lịch sử, chạy \`paths\` đường mô phỏng.
+
+- Cùng một chuỗi chỉ số ngày được áp dụng cho mọi allocation → giữ tương quan giữa các pool.
+- Block \`blockSizeDays\` ngày liên tiếp → giữ tự tương quan ngắn hạn.
+- \`seed\` cố định → kết quả tái lập được.
+
+Trả về dải P5/P25/P50/P75/P95 theo thời gian (\`bands\`), phân phối giá trị cuối kỳ, APY, drawdown
+và \`probabilityOfLossPercent\` (tỉ lệ đường lỗ: \`totalReturnUsd < 0\`, tức giá trị cuối + tiền đã rút < vốn ban đầu + tiền đã nạp).
+        `,
+    })
+    @ApiBody({ type: RunMonteCarloDto })
+    async runMonteCarlo(@Body() dto: RunMonteCarloDto) {
+        return this.backtestAnalysisService.runMonteCarlo(dto);
+    }
+
+    /**
+     * POST /api/v1/backtest/stress-scenarios
+     */
+    @Post('stress-scenarios')
+    @Public()
+    @ApiOperation({
+        summary: '🧨 Lưu một stress scenario',
+        description: 'Lưu vào `stress_scenarios` và trả về `scenarioId` để dùng trong `stressScenarioIds` của `POST /backtest/run`.',
+    })
+    @ApiBody({ type: StressScenarioDto })
+    async createStressScenario(@Body() dto: StressScenarioDto) {
+        return this.stressScenarioService.create(dto);
+    }
+
+    /**
+     * GET /api/v1/backtest/stress-scenarios
+     */
+    @Get('stress-scenarios')
+    @Public()
+    @ApiOperation({
+        summary: 'Thư viện stress scenario (preset + đã lưu)',
+        description: 'Preset có `scenarioId` dạng `preset:*` và không xoá được; scenario đã lưu sắp xếp mới nhất trước.',
+    })
+    async listStressScenarios() {
+        return this.stressScenarioService.list();
+    }
+
+    /**
+     * GET /api/v1/backtest/stress-scenarios/:scenarioId
+     */
+    @Get('stress-scenarios/:scenarioId')
+    @Public()
+    @ApiOperation({ summary: 'Lấy một stress scenario' })
+    @ApiParam({ name: 'scenarioId', example: 'preset:vdot-depeg-10' })
+    async getStressScenario(@Param('scenarioId') scenarioId: string) {
+        return this.stressScenarioService.get(scenarioId);
+    }
+
+    /**
+     * DELETE /api/v1/backtest/stress-scenarios/:scenarioId
+     */
+    @Delete('stress-scenarios/:scenarioId')
+    @Public()
+    @ApiOperation({ summary: 'Xoá một stress scenario đã lưu' })
+    @ApiParam({ name: 'scenarioId', example: '7b9e1c2d-4f3a-4e8b-9c1d-2a6f5e4b3c21' })
+    async deleteStressScenario(@Param('scenarioId') scenarioId: string) {
+        return this.stressScenarioService.remove(scenarioId);
+    }
+
+    /**
+     * GET /api/v1/backtest
+     */
+    @Get()
+    @Public()
+    @ApiOperation({
+        summary: 'Danh sách các backtest run đã lưu (phân trang)',
+        description: 'Sắp xếp theo thời gian tạo giảm dần. Không bao gồm `timeSeries` — dùng `GET /backtest/:runId` để lấy đầy đủ.',
+    })
+    @ApiQuery({ name: 'page', required: false, type: Number, example: 1 })
+    @ApiQuery({ name: 'limit', required: false, type: Number, example: 20 })
+    @ApiQuery({ name: 'status', required: false, enum: ['pending', 'running', 'done', 'error'] })
+    async listRuns(@Query() query: ListBacktestRunsQueryDto) {
+        return this.backtestRunService.listRuns(query);
+    }
+
+    /**
+     * GET /api/v1/backtest/:runId
+     * Declared last so it does not shadow the static GET routes above.
+     */
+    @Get(':runId')
+    @Public()
+    @ApiOperation({
+        summary: 'Lấy trạng thái / kết quả của một backtest run',
+        description: 'Trả về `status` (pending | running | done | error), `result` khi hoàn tất, hoặc `errorMessage` khi thất bại.',
+    })
+    @ApiParam({ name: 'runId', example: '3f1c2a9e-8d4b-4c1a-9f3e-2b7d6a5c4e10' })
+    async getRun(@Param('runId') runId: string) {
+        return this.backtestRunService.getRun(runId);
     }
 }
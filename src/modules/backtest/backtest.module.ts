@@ -4,16 +4,30 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { BacktestController } from './backtest.controller';
 import { BacktestService } from './backtest.service';
 import { StrategyService } from './strategy.service';
+import { BacktestRunService } from './backtest-run.service';
+import { BacktestAnalysisService } from './backtest-analysis.service';
+import { StressScenarioService } from './stress-scenario.service';
 import { PoolsClientService } from '../../common/services/pools-client.service';
-import { StrategyCache } from '../../entities';
+import { ExportService } from '../../common/services/export.service';
+import { StrategyCache, BacktestRun, StressScenario } from '../../entities';
+import { PriceIndexerModule } from '../price-indexer/price-indexer.module';
 
 @Module({
     imports: [
         ConfigModule,
-        TypeOrmModule.forFeature([StrategyCache]),
+        TypeOrmModule.forFeature([StrategyCache, BacktestRun, StressScenario]),
+        PriceIndexerModule,
     ],
     controllers: [BacktestController],
-    providers: [BacktestService, StrategyService, PoolsClientService],
-    exports: [BacktestService, StrategyService],
+    providers: [
+        BacktestService,
+        BacktestRunService,
+        BacktestAnalysisService,
+        StressScenarioService,
+        StrategyService,
+        PoolsClientService,
+        ExportService,
+    ],
+    exports: [BacktestService, BacktestRunService, BacktestAnalysisService, StressScenarioService, StrategyService],
 })
 export class BacktestModule { }
@@ -0,0 +1,868 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+    BacktestService,
+    PoolType,
+    IlMode,
+    RebalanceMode,
+    BenchmarkType,
+    ValuationMode,
+    GapPolicy,
+    ApyFallbackLevel,
+} from './backtest.service';
+import { LedgerEventType } from './backtest-ledger';
+import { HarvestPolicy } from './backtest-reward-token';
+import { StressShockType } from './backtest-stress';
+import { VTokenExitMode } from './backtest-transfers';
+import { PoolsClientService, PoolHistoryRecord } from '../../common/services/pools-client.service';
+import { PriceIndexerService, DailyPriceSeries } from '../price-indexer/price-indexer.service';
+
+describe('BacktestService', () => {
+    let service: BacktestService;
+
+    // Token catalog from GET /pools/tokens
+    const mockTokens = [
+        { symbol: 'vDOT', protocols: ['bifrost'], poolTypes: ['vstaking'] },
+        { symbol: 'vKSM', protocols: ['bifrost'], poolTypes: ['vstaking'] },
+        { symbol: 'DOT', protocols: ['bifrost', 'hydration', 'moonwell'], poolTypes: ['dex', 'farming', 'lending'] },
+    ];
+
+    // Flat APY history over the whole of January 2026
+    const makeHistory = (protocol: string, assetSymbol: string, supplyApy: number, rewardApy = 0): PoolHistoryRecord[] =>
+        Array.from({ length: 31 }, (_, i) => ({
+            protocol,
+            network: protocol,
+            poolType: 'dex',
+            assetSymbol,
+            supplyApy,
+            rewardApy,
+            totalApy: supplyApy + rewardApy,
+            dataTimestamp: `2026-01-${String(i + 1).padStart(2, '0')}T00:00:00.000Z`,
+        }));
+
+    // Sparse series: real values on Jan 1 and Jan 31 only, plus a broken 0% record on Jan 15
+    const sparseHistory: PoolHistoryRecord[] = makeHistory('bifrost', 'DOT', 10)
+        .filter((_, i) => i === 0 || i === 14 || i === 30)
+        .map((rec, i) => i === 1
+            ? { ...rec, supplyApy: 0, totalApy: 0 }
+            : i === 2 ? { ...rec, supplyApy: 40, totalApy: 40 } : rec);
+
+    const mockHistory: PoolHistoryRecord[] = [
+        ...makeHistory('bifrost', 'vDOT', 10),
+        ...makeHistory('bifrost', 'vKSM', 200),
+        ...makeHistory('hydration', 'DOT-vDOT', 20),
+        ...makeHistory('bifrost', 'BNC-vDOT', 5, 30).map(rec => ({ ...rec, tvlUsd: 200000 })),
+        ...sparseHistory,
+    ];
+
+    const makePrices = (coingeckoId: string, start: number, end: number): DailyPriceSeries => ({
+        coingeckoId,
+        map: { '2026-01-01': start, '2026-01-31': end },
+        sortedKeys: ['2026-01-01', '2026-01-31'],
+    });
+
+    let priceSeries: Record<string, DailyPriceSeries>;
+
+    beforeEach(async () => {
+        priceSeries = {
+            polkadot: makePrices('polkadot', 10, 5),          // DOT halves
+            'voucher-dot': makePrices('voucher-dot', 15, 15), // vDOT flat
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                BacktestService,
+                {
+                    provide: PoolsClientService,
+                    useValue: {
+                        fetchTokens: jest.fn().mockResolvedValue({ data: mockTokens }),
+                        fetchPoolHistory: jest.fn().mockResolvedValue({ count: mockHistory.length, data: mockHistory }),
+                        fetchPools: jest.fn().mockResolvedValue({ count: 0, filter: {}, data: [] }),
+                    },
+                },
+                {
+                    provide: PriceIndexerService,
+                    useValue: {
+                        resolveCoingeckoId: jest.fn((symbol: string) =>
+                            ({ DOT: 'polkadot', vDOT: 'voucher-dot' } as Record<string, string>)[symbol] ?? null),
+                        getDailyPriceSeries: jest.fn(async (id: string) =>
+                            priceSeries[id] ?? { coingeckoId: id, map: {}, sortedKeys: [] }),
+                    },
+                },
+            ],
+        }).compile();
+
+        service = module.get<BacktestService>(BacktestService);
+    });
+
+    it('should be defined', () => {
+        expect(service).toBeDefined();
+    });
+
+    describe('runBacktest', () => {
+        it('TestCase 1: vstaking allocation compounds combined APY daily', async () => {
+            const result = await service.runBacktest({
+                initialAmountUsd: 1000,
+                from: '2026-01-01',
+                to: '2026-01-31',
+                allocations: [{ protocol: 'bifrost', assetSymbol: 'vDOT', percentage: 100, poolType: PoolType.VSTAKING }],
+            });
+
+            expect(result.summary.durationDays).toBe(30);
+            expect(result.summary.finalAmountUsd).toBeCloseTo(1000 * Math.pow(1 + 0.1 / 365, 30), 2);
+            expect(result.breakdown[0].dataSource).toBe('bifrost/vDOT');
+        });
+
+        it('TestCase 2: IL is computed from real start/end TokenPrice of LP constituents', async () => {
+            const result = await service.runBacktest({
+                initialAmountUsd: 1000,
+                from: '2026-01-01',
+                to: '2026-01-31',
+                includeIL: true,
+                allocations: [{ protocol: 'hydration', assetSymbol: 'DOT-vDOT', percentage: 100, poolType: PoolType.DEX }],
+            });
+
+            // r = 0.5 → IL = 2*sqrt(0.5)/1.5 - 1 ≈ -5.72%
+            const expectedIl = 2 * Math.sqrt(0.5) / 1.5 - 1;
+            const grown = 1000 * Math.pow(1 + 0.2 / 365, 30);
+            const alloc = result.breakdown[0];
+            expect(alloc.impermanentLoss.ilPercent).toBeCloseTo(expectedIl * 100, 3);
+            expect(alloc.impermanentLoss.priceChangePercent).toEqual({ DOT: -50, vDOT: 0 });
+            expect(alloc.ilLossUsd).toBeCloseTo(grown * Math.abs(expectedIl), 2);
+            expect(result.summary.finalAmountUsd).toBeCloseTo(grown * (1 + expectedIl), 2);
+        });
+
+        it('TestCase 3: IL is skipped with a warning when constituent prices are unavailable', async () => {
+            delete priceSeries['voucher-dot'];
+
+            const result = await service.runBacktest({
+                initialAmountUsd: 1000,
+                from: '2026-01-01',
+                to: '2026-01-31',
+                includeIL: true,
+                allocations: [{ protocol: 'hydration', assetSymbol: 'DOT-vDOT', percentage: 100, poolType: PoolType.DEX }],
+            });
+
+            expect(result.breakdown[0].ilLossUsd).toBe(0);
+            expect(result.breakdown[0].ilWarning).toContain('vDOT');
+        });
+
+        it('TestCase 4: warns when constituent prices start after the backtest start', async () => {
+            priceSeries.polkadot = {
+                coingeckoId: 'polkadot',
+                map: { '2026-01-10': 10, '2026-01-31': 5 },
+                sortedKeys: ['2026-01-10', '2026-01-31'],
+            };
+
+            const result = await service.runBacktest({
+                initialAmountUsd: 1000,
+                from: '2026-01-01',
+                to: '2026-01-31',
+                includeIL: true,
+                allocations: [{ protocol: 'hydration', assetSymbol: 'DOT-vDOT', percentage: 100, poolType: PoolType.DEX }],
+            });
+
+            expect(result.breakdown[0].ilLossUsd).toBeGreaterThan(0);
+            expect(result.breakdown[0].ilWarning).toContain('DOT starts on 2026-01-10');
+            expect(result.breakdown[0].ilWarning).not.toContain('vDOT');
+        });
+
+        it('TestCase 5: Daily IL mode marks LP value to market so drawdown shows when the loss happened', async () => {
+            // DOT halves on Jan 15 and stays there
+            priceSeries.polkadot = {
+                coingeckoId: 'polkadot',
+                map: { '2026-01-01': 10, '2026-01-15': 5, '2026-01-31': 5 },
+                sortedKeys: ['2026-01-01', '2026-01-15', '2026-01-31'],
+            };
+            const dto = {
+                initialAmountUsd: 1000,
+                from: '2026-01-01',
+                to: '2026-01-31',
+                includeIL: true,
+                allocations: [{ protocol: 'hydration', assetSymbol: 'DOT-vDOT', percentage: 100, poolType: PoolType.DEX }],
+            };
+
+            const endOfPeriod = await service.runBacktest(dto);
+            const daily = await service.runBacktest({ ...dto, ilMode: IlMode.DAILY });
+
+            const expectedIl = 2 * Math.sqrt(0.5) / 1.5 - 1;
+            // Same total loss, but only the daily path sees it before the last day
+            expect(daily.summary.finalAmountUsd).toBeCloseTo(endOfPeriod.summary.finalAmountUsd, 2);
+            // Partly offset by that day's yield
+            expect(daily.summary.maxDrawdownPercent).toBeLessThan(expectedIl * 100 + 0.1);
+            expect(endOfPeriod.summary.maxDrawdownPercent).toBe(0);
+
+            const jan14 = daily.timeSeries.find(t => t.date === '2026-01-14');
+            const jan15 = daily.timeSeries.find(t => t.date === '2026-01-15');
+            expect(jan14.cumulativeIlUsd).toBe(0);
+            expect(jan15.cumulativeIlUsd).toBeGreaterThan(0);
+            expect(daily.breakdown[0].impermanentLoss.worstIlPercent).toBeCloseTo(expectedIl * 100, 3);
+        });
+
+        it('TestCase 6: extended risk metrics locate the IL drawdown and its tail loss', async () => {
+            priceSeries.polkadot = {
+                coingeckoId: 'polkadot',
+                map: { '2026-01-01': 10, '2026-01-15': 5, '2026-01-31': 5 },
+                sortedKeys: ['2026-01-01', '2026-01-15', '2026-01-31'],
+            };
+            const result = await service.runBacktest({
+                initialAmountUsd: 1000,
+                from: '2026-01-01',
+                to: '2026-01-31',
+                includeIL: true,
+                ilMode: IlMode.DAILY,
+                allocations: [{ protocol: 'hydration', assetSymbol: 'DOT-vDOT', percentage: 100, poolType: PoolType.DEX }],
+            });
+
+            const { summary } = result;
+            expect(summary.longestDrawdownStart).toBe('2026-01-14');
+            expect(summary.longestDrawdownDays).toBe(17);
+            expect(summary.longestDrawdownRecoveryDate).toBeNull();
+            // 29 of 30 days earn yield, one day takes the IL hit
+            expect(summary.winRatePercent).toBeCloseTo((29 / 30) * 100, 3);
+            expect(summary.cvar99Percent).toBeLessThan(-5);
+            expect(summary.var95Percent).toBeGreaterThan(0);
+            expect(summary.calmarRatio).toBeLessThan(0);
+            expect(summary.volatilityPercent).toBeGreaterThan(0);
+            // Single allocation with no rebalancing — per-allocation metrics match the portfolio
+            expect(result.breakdown[0].riskMetrics.volatilityPercent).toBeCloseTo(summary.volatilityPercent, 2);
+            expect(result.breakdown[0].riskMetrics.longestDrawdownDays).toBe(17);
+        });
+
+        it('TestCase 7: benchmarks are built on the same calendar and compared on daily returns', async () => {
+            const result = await service.runBacktest({
+                initialAmountUsd: 1000,
+                from: '2026-01-01',
+                to: '2026-01-31',
+                allocations: [{ protocol: 'hydration', assetSymbol: 'DOT-vDOT', percentage: 100, poolType: PoolType.DEX }],
+                benchmarks: [BenchmarkType.HODL, BenchmarkType.VDOT, BenchmarkType.RISK_FREE],
+            });
+
+            const [hodl, vdot, riskFree] = result.benchmarks;
+            // 500 USD of DOT halves, 500 USD of vDOT is flat
+            expect(hodl.finalAmountUsd).toBeCloseTo(750, 4);
+            expect(hodl.beta).not.toBeNull();
+            expect(vdot.finalAmountUsd).toBeCloseTo(1000 * Math.pow(1 + 0.1 / 365, 30), 2);
+            expect(riskFree.finalAmountUsd).toBeCloseTo(1000 * Math.pow(1 + 0.05 / 365, 30), 2);
+            expect(riskFree.beta).toBeNull();
+            expect(riskFree.excessReturnPercent).toBeCloseTo(
+                result.summary.totalReturnPercent - riskFree.totalReturnPercent, 3,
+            );
+            expect(riskFree.timeSeries).toHaveLength(31);
+        });
+
+        it('TestCase 8: token-unit valuation marks positions to market and splits yield from price', async () => {
+            priceSeries['voucher-dot'] = makePrices('voucher-dot', 15, 12); // vDOT -20% on the last day
+
+            const result = await service.runBacktest({
+                initialAmountUsd: 1000,
+                from: '2026-01-01',
+                to: '2026-01-31',
+                valuationMode: ValuationMode.TOKEN_UNITS,
+                reportCurrency: 'DOT',
+                allocations: [{ protocol: 'bifrost', assetSymbol: 'vDOT', percentage: 100, poolType: PoolType.VSTAKING }],
+            });
+
+            const growth = 1 + 0.1 / 365;
+            const finalUsd = 1000 * Math.pow(growth, 30) * 0.8;
+            const priceUsd = -0.2 * 1000 * Math.pow(growth, 29);
+            const { summary } = result;
+            expect(summary.finalAmountUsd).toBeCloseTo(finalUsd, 2);
+            expect(summary.returnAttribution.priceUsd).toBeCloseTo(priceUsd, 2);
+            expect(summary.returnAttribution.yieldUsd).toBeCloseTo(finalUsd - 1000 - priceUsd, 2);
+            // DOT 10 → 5: 100 DOT in, finalUsd / 5 DOT out
+            expect(summary.denominated.initialAmount).toBeCloseTo(100, 4);
+            expect(summary.denominated.finalAmount).toBeCloseTo(finalUsd / 5, 4);
+            expect(result.timeSeries[30].valueInReportCurrency).toBeCloseTo(finalUsd / 5, 3);
+        });
+
+        describe('gap policy', () => {
+            const sparseDto = {
+                initialAmountUsd: 1000,
+                from: '2026-01-01',
+                to: '2026-01-31',
+                allocations: [{ protocol: 'bifrost', assetSymbol: 'DOT', percentage: 100, poolType: PoolType.VSTAKING }],
+            };
+
+            it('TestCase 9: forward fill holds the last real value and reports per-day coverage', async () => {
+                const result = await service.runBacktest(sparseDto);
+
+                // Jan 2..30 grow at the 10% carried from Jan 1 (the broken Jan 15 record is ignored), Jan 31 at 40%
+                expect(result.summary.finalAmountUsd).toBeCloseTo(1000 * Math.pow(1 + 0.1 / 365, 29) * (1 + 0.4 / 365), 2);
+                expect(result.summary.gapPolicy).toBe(GapPolicy.FORWARD_FILL);
+                expect(result.breakdown[0].coverage).toMatchObject({ realDays: 2, filledDays: 29, syntheticDays: 0 });
+                expect(result.breakdown[0].coverage.segments).toEqual([
+                    { from: '2026-01-01', to: '2026-01-01', status: 'real' },
+                    { from: '2026-01-02', to: '2026-01-30', status: 'filled' },
+                    { from: '2026-01-31', to: '2026-01-31', status: 'real' },
+                ]);
+            });
+
+            it('TestCase 10: linear interpolation ramps between real values', async () => {
+                const result = await service.runBacktest({ ...sparseDto, gapPolicy: GapPolicy.LINEAR });
+
+                let expected = 1000;
+                for (let d = 1; d <= 30; d++) expected *= 1 + (10 + 30 * (d / 30)) / 100 / 365;
+                expect(result.summary.finalAmountUsd).toBeCloseTo(expected, 2);
+            });
+
+            it('TestCase 11: synthetic floor is reproducible for the same seed', async () => {
+                const dto = { ...sparseDto, gapPolicy: GapPolicy.SYNTHETIC_FLOOR, gapSeed: 7 };
+                const first = await service.runBacktest(dto);
+                const second = await service.runBacktest(dto);
+                const otherSeed = await service.runBacktest({ ...dto, gapSeed: 8 });
+
+                expect(second.summary.finalAmountUsd).toBe(first.summary.finalAmountUsd);
+                expect(otherSeed.summary.finalAmountUsd).not.toBe(first.summary.finalAmountUsd);
+                expect(first.breakdown[0].coverage.syntheticDays).toBe(29);
+            });
+        });
+
+        describe('fallback control', () => {
+            // DOT is listed on hydration but only bifrost has DOT history
+            const hydrationDotDto = {
+                initialAmountUsd: 1000,
+                from: '2026-01-01',
+                to: '2026-01-31',
+                allocations: [{ protocol: 'hydration', assetSymbol: 'DOT', percentage: 100, poolType: PoolType.VSTAKING }],
+            };
+
+            it('TestCase 12: reports the provenance of the fallback records used', async () => {
+                const result = await service.runBacktest(hydrationDotDto);
+
+                expect(result.breakdown[0].provenance).toEqual({
+                    level: ApyFallbackLevel.ASSET,
+                    protocols: ['bifrost'],
+                    assetSymbols: ['DOT'],
+                    poolTypes: ['dex'],
+                    recordCount: 3,
+                    firstRecordAt: '2026-01-01T00:00:00.000Z',
+                    lastRecordAt: '2026-01-31T00:00:00.000Z',
+                });
+            });
+
+            it('TestCase 13: disabled levels are skipped and strict mode fails with 422', async () => {
+                const skipped = await service.runBacktest({
+                    ...hydrationDotDto,
+                    disabledFallbacks: [ApyFallbackLevel.ASSET],
+                });
+                expect(skipped.breakdown[0].provenance.level).toBe(ApyFallbackLevel.PROTOCOL);
+                expect(skipped.breakdown[0].provenance.assetSymbols).toEqual(['DOT-vDOT']);
+
+                await expect(service.runBacktest({ ...hydrationDotDto, strictData: true }))
+                    .rejects.toMatchObject({ status: 422, response: { error: 'MissingExactData' } });
+            });
+        });
+
+        it('TestCase 14: cash flows are excluded from time-weighted returns and drive the IRR', async () => {
+            const base = {
+                initialAmountUsd: 1000,
+                from: '2026-01-01',
+                to: '2026-01-31',
+                allocations: [{ protocol: 'bifrost', assetSymbol: 'vDOT', percentage: 100, poolType: PoolType.VSTAKING }],
+            };
+            const plain = await service.runBacktest(base);
+            const result = await service.runBacktest({
+                ...base,
+                cashFlows: [
+                    { date: '2026-01-05', amountUsd: 500, repeatEveryDays: 10 },  // Jan 5, 15, 25
+                    { date: '2026-01-20', amountUsd: -200 },
+                ],
+            });
+
+            const { summary } = result;
+            // Same 10% APY every day, so flows change the balance but not the time-weighted return
+            expect(summary.totalReturnPercent).toBeCloseTo(plain.summary.totalReturnPercent, 3);
+            expect(summary.cashFlows.totalDepositsUsd).toBe(1500);
+            expect(summary.cashFlows.totalWithdrawalsUsd).toBe(200);
+            expect(summary.cashFlows.moneyWeightedReturnPercent).toBeCloseTo(summary.annualizedApyPercent, 1);
+            expect(summary.totalReturnUsd).toBeCloseTo(summary.finalAmountUsd + 200 - 1000 - 1500, 4);
+            expect(result.timeSeries.filter(t => t.cashFlowUsd).map(t => [t.date, t.cashFlowUsd])).toEqual([
+                ['2026-01-05', 500], ['2026-01-15', 500], ['2026-01-20', -200], ['2026-01-25', 500],
+            ]);
+            expect(Math.max(...result.timeSeries.map(t => t.dailyReturnPct))).toBeLessThan(0.03);
+        });
+
+        it('TestCase 15: phases switch targets on their start date and report per-phase performance', async () => {
+            const result = await service.runBacktest({
+                initialAmountUsd: 1000,
+                from: '2026-01-01',
+                to: '2026-01-31',
+                xcmFeeUsd: 0.5,
+                slippageTolerancePercent: 1,
+                allocations: [{ protocol: 'bifrost', assetSymbol: 'vDOT', percentage: 100, poolType: PoolType.VSTAKING }],
+                phases: [{
+                    from: '2026-01-16',
+                    label: 'LP',
+                    allocations: [{ protocol: 'hydration', assetSymbol: 'DOT-vDOT', percentage: 100, poolType: PoolType.FARMING }],
+                }],
+            });
+
+            expect(result.rebalanceEvents).toHaveLength(1);
+            expect(result.rebalanceEvents[0]).toMatchObject({ date: '2026-01-16', trigger: 'phase', xcmFeeUsd: 0.5 });
+
+            const [opening, lp] = result.phases;
+            expect([opening.label, opening.from, opening.to, opening.durationDays]).toEqual(['Phase 1', '2026-01-01', '2026-01-16', 15]);
+            expect([lp.label, lp.from, lp.to, lp.durationDays]).toEqual(['LP', '2026-01-16', '2026-01-31', 15]);
+            expect(lp.entryCosts.xcmFeeUsd).toBe(0.5);
+            expect(lp.entryCosts.slippageUsd).toBeCloseTo(opening.endValueUsd * 0.01, 2);  // sell + buy, half each
+            // Both phases pay ~1% to get in; the 20% APY leg earns more over the same 15 days
+            expect(lp.returnPercent).toBeGreaterThan(opening.returnPercent);
+            // Phase returns chain into the run's time-weighted return
+            const chained = (1 + opening.returnPercent / 100) * (1 + lp.returnPercent / 100) - 1;
+            expect(chained * 100).toBeCloseTo(result.summary.totalReturnPercent, 2);
+
+            const [vdot, pair] = result.breakdown;
+            expect(vdot.finalUsd).toBeCloseTo(0, 6);
+            expect(pair).toMatchObject({ allocationPercent: 0, finalTargetPercent: 100, allocatedUsd: 0 });
+            // Capital moved in at the switch is not return — the LP earns what its phase earned
+            expect(pair.returnPercent).toBeCloseTo(lp.returnPercent, 2);
+        });
+
+        it('TestCase 16: rotation ranks candidates on history before each decision and logs every decision', async () => {
+            const base = {
+                initialAmountUsd: 1000,
+                from: '2026-01-01',
+                to: '2026-01-31',
+                xcmFeeUsd: 0.5,
+                rotation: {
+                    candidates: [
+                        { protocol: 'bifrost', assetSymbol: 'vDOT', poolType: PoolType.VSTAKING },
+                        { protocol: 'bifrost', assetSymbol: 'vKSM', poolType: PoolType.VSTAKING },
+                        { protocol: 'hydration', assetSymbol: 'DOT-vDOT', poolType: PoolType.FARMING },
+                    ],
+                    intervalDays: 10,
+                    lookbackDays: 3,
+                },
+            };
+            const result = await service.runBacktest(base);
+            const { decisions } = result.rotation;
+
+            // History starts on Jan 1, so the opening decision has nothing to rank
+            expect(decisions.map(d => [d.date, d.action])).toEqual([
+                ['2026-01-01', 'enter'], ['2026-01-11', 'rotate'], ['2026-01-21', 'hold'], ['2026-01-31', 'hold'],
+            ]);
+            expect(decisions[0].note).toContain('equal weight');
+            expect(decisions[0].holdings).toHaveLength(3);
+
+            // Jan 11 sees Jan 8–10 only
+            expect(decisions[1].ranking[0]).toMatchObject({ assetSymbol: 'vKSM', score: 200, dataPoints: 3, selected: true });
+            expect(decisions[1].holdings).toEqual([{ protocol: 'bifrost', assetSymbol: 'vKSM', percentage: 100 }]);
+            expect(decisions[1].costs.xcmFeeUsd).toBe(0.5);
+            expect(result.rebalanceEvents.map(e => [e.date, e.trigger])).toEqual([['2026-01-11', 'rotation']]);
+            expect(result.rotation.rotationCount).toBe(1);
+
+            // Records carry no TVL, so a TVL floor leaves nothing to rotate into
+            const gated = await service.runBacktest({ ...base, rotation: { ...base.rotation, minTvlUsd: 500000 } });
+            expect(gated.rotation.decisions.slice(1).every(d => d.action === 'hold')).toBe(true);
+            expect(gated.rotation.decisions[1].ranking.every(r => r.excludedReason === 'TVL unknown')).toBe(true);
+            expect(gated.rebalanceEvents).toHaveLength(0);
+        });
+
+        it('TestCase 17: lending loop tracks LTV / health factor and is liquidated with a penalty when the collateral drops', async () => {
+            priceSeries.polkadot = makePrices('polkadot', 10, 10);
+            priceSeries['voucher-dot'] = makePrices('voucher-dot', 15, 10);   // vDOT -33% on the last day
+            const result = await service.runBacktest({
+                initialAmountUsd: 1000,
+                from: '2026-01-01',
+                to: '2026-01-31',
+                allocations: [{
+                    protocol: 'bifrost',
+                    assetSymbol: 'vDOT',
+                    percentage: 100,
+                    poolType: PoolType.LENDING,
+                    leverage: { targetLtvPercent: 60, loops: 3, borrowAssetSymbol: 'DOT', borrowApyPercent: 5 },
+                }],
+            });
+
+            const { leverage } = result.breakdown[0];
+            expect(leverage.leverageMultiple).toBeCloseTo(2.176, 3);
+            expect(leverage.borrowApySource).toContain('borrowApyPercent');
+            // 2.176 × 0.8 / 1.176 before the drop, 1.4507 × 0.8 / 1.176 after it
+            expect(leverage.peakLtvPercent).toBeGreaterThan(80);
+            expect(leverage.minHealthFactor).toBeLessThan(1);
+
+            expect(result.liquidations).toHaveLength(1);
+            const [liq] = result.liquidations;
+            expect(liq.date).toBe('2026-01-31');
+            expect(liq.healthFactorAfter).toBeGreaterThan(1);
+            expect(liq.penaltyUsd).toBeCloseTo(liq.debtRepaidUsd * 0.1, 2);
+            expect(leverage.liquidationCount).toBe(1);
+
+            // Before the drop the loop earns 10% on 2.176× and pays 5% on 1.176×
+            const jan30 = result.timeSeries.find(t => t.date === '2026-01-30');
+            const expectedApy = 10 * 2.176 - 5 * 1.176;
+            expect(jan30.totalValueUsd).toBeCloseTo(1000 * (1 + expectedApy / 100 * 29 / 365), 0);
+        });
+
+        it('TestCase 18: rebalancing pays per-route XCM fees only for net cross-network moves and idles capital in transit', async () => {
+            const dto = {
+                initialAmountUsd: 10000,
+                from: '2026-01-01',
+                to: '2026-01-31',
+                rebalanceIntervalDays: 10,
+                allocations: [
+                    { protocol: 'bifrost', assetSymbol: 'vDOT', percentage: 40, poolType: PoolType.VSTAKING },
+                    { protocol: 'bifrost', assetSymbol: 'vKSM', percentage: 30, poolType: PoolType.VSTAKING },
+                    { protocol: 'hydration', assetSymbol: 'DOT-vDOT', percentage: 30, poolType: PoolType.DEX },
+                ],
+            };
+            const result = await service.runBacktest(dto);
+
+            // vKSM (200% APY) funds both buys; only the Hydration leg crosses networks
+            expect(result.rebalanceEvents).toHaveLength(3);
+            for (const event of result.rebalanceEvents) {
+                expect(event.transfers).toHaveLength(1);
+                const [transfer] = event.transfers;
+                expect(transfer).toMatchObject({ fromNetwork: 'bifrost', toNetwork: 'hydration', path: ['bifrost', 'hydration'], feeUsd: 0.05 });
+                const hydrationBuy = event.trades.find(t => t.assetSymbol === 'DOT-vDOT').tradeUsd;
+                expect(transfer.amountUsd).toBeCloseTo(hydrationBuy, 3);
+                expect(event.xcmFeeUsd).toBe(0.05);
+            }
+            expect(result.summary.xcmTransferCount).toBe(3);
+            expect(result.summary.xcmFeesPaidUsd).toBeCloseTo(0.15, 4);
+            // 2 minutes in flight per transfer; the one on the last day never misses a day of growth
+            const moved = result.rebalanceEvents.slice(0, 2).reduce((s, e) => s + e.transfers[0].amountUsd, 0);
+            expect(result.summary.idleCapitalUsdDays).toBeCloseTo(moved * 2 / 1440, 4);
+
+            const flat = await service.runBacktest({ ...dto, xcmFeeUsd: 1 });
+            expect(flat.summary.xcmFeesPaidUsd).toBe(3);
+
+            // No direct Hydration → Moonbeam channel: routed through Asset Hub
+            const viaHub = await service.runBacktest({
+                ...dto,
+                allocations: [
+                    { protocol: 'hydration', assetSymbol: 'DOT-vDOT', percentage: 50, poolType: PoolType.DEX },
+                    { protocol: 'moonwell', assetSymbol: 'DOT', percentage: 50, poolType: PoolType.LENDING },
+                ],
+            });
+            expect(viaHub.breakdown.map(b => b.network)).toEqual(['hydration', 'moonbeam']);
+            expect(viaHub.rebalanceEvents[0].transfers[0]).toMatchObject({
+                fromNetwork: 'hydration',
+                toNetwork: 'moonbeam',
+                path: ['hydration', 'asset-hub', 'moonbeam'],
+                feeUsd: 0.1,
+                transferMinutes: 6,
+            });
+        });
+
+        it('TestCase 19: the ledger records every harvest, trade, fee and slippage charge and reconciles with the summary', async () => {
+            const result = await service.runBacktest({
+                initialAmountUsd: 10000,
+                from: '2026-01-01',
+                to: '2026-01-31',
+                rebalanceIntervalDays: 10,
+                slippageTolerancePercent: 0.5,
+                cashFlows: [{ date: '2026-01-15', amountUsd: -1000 }],
+                allocations: [
+                    { protocol: 'bifrost', assetSymbol: 'vKSM', percentage: 40, poolType: PoolType.VSTAKING },
+                    { protocol: 'bifrost', assetSymbol: 'BNC-vDOT', percentage: 30, poolType: PoolType.FARMING },
+                    { protocol: 'hydration', assetSymbol: 'DOT-vDOT', percentage: 30, poolType: PoolType.DEX },
+                ],
+            });
+            const { ledger, summary } = result;
+            const ofType = (type: LedgerEventType) => ledger.filter(e => e.type === type);
+            const total = (type: LedgerEventType) => ofType(type).reduce((s, e) => s + e.amountUsd, 0);
+
+            expect(ledger.map(e => e.seq)).toEqual(ledger.map((_, idx) => idx + 1));
+            expect([...ledger].sort((a, b) => a.date.localeCompare(b.date) || a.seq - b.seq)).toEqual(ledger);
+
+            expect(ofType(LedgerEventType.DEPOSIT).map(e => [e.assetSymbol, e.amountUsd, e.balanceAfterUsd])).toEqual([
+                ['vKSM', 4000, 4000],
+                ['BNC-vDOT', 3000, 3000],
+                ['DOT-vDOT', 3000, 3000],
+            ]);
+            expect(ofType(LedgerEventType.HARVEST)).toHaveLength(summary.totalHarvestEventsCount);
+            expect(ofType(LedgerEventType.REINVEST)).toHaveLength(summary.totalHarvestEventsCount);
+            expect(ofType(LedgerEventType.HARVEST).length).toBeGreaterThan(0);
+            expect(ofType(LedgerEventType.REBALANCE_TRADE)).toHaveLength(result.rebalanceEvents.reduce((s, e) => s + e.trades.length, 0));
+            expect(ofType(LedgerEventType.XCM_FEE)).toHaveLength(summary.xcmTransferCount);
+            expect(-total(LedgerEventType.XCM_FEE)).toBeCloseTo(summary.xcmFeesPaidUsd, 3);
+            expect(-total(LedgerEventType.SLIPPAGE)).toBeCloseTo(summary.slippageCostUsd, 3);
+            expect(ofType(LedgerEventType.WITHDRAWAL)).toMatchObject([{ date: '2026-01-15', amountUsd: -1000, protocol: null }]);
+
+            // Rebalance trades net to zero and each event's fees land right after its trades
+            const [firstRebalance] = result.rebalanceEvents;
+            const trades = ledger.filter(e => e.type === LedgerEventType.REBALANCE_TRADE && e.date === firstRebalance.date);
+            expect(trades.reduce((s, e) => s + e.amountUsd, 0)).toBeCloseTo(0, 3);
+            const fee = ledger.find(e => e.type === LedgerEventType.XCM_FEE && e.date === firstRebalance.date);
+            expect(fee.seq).toBe(trades[trades.length - 1].seq + 1);
+            expect(fee.portfolioValueAfterUsd).toBeCloseTo(trades[trades.length - 1].portfolioValueAfterUsd + fee.amountUsd, 3);
+        });
+
+        it('TestCase 20: per-allocation daily series sum to the total and chart downsampling keeps a one-day spike', async () => {
+            const dto = {
+                initialAmountUsd: 10000,
+                from: '2025-06-01',
+                to: '2026-12-31',
+                allocations: [
+                    { protocol: 'bifrost', assetSymbol: 'vDOT', percentage: 60, poolType: PoolType.VSTAKING },
+                    { protocol: 'bifrost', assetSymbol: 'BNC-vDOT', percentage: 40, poolType: PoolType.FARMING },
+                ],
+                // In and straight back out — a one-day peak on an odd day index that stride sampling skips
+                cashFlows: [{ date: '2026-01-04', amountUsd: 5000 }, { date: '2026-01-05', amountUsd: -5000 }],
+            };
+            const result = await service.runBacktest(dto);
+            const full = await service.runBacktest(dto, { fullTimeSeries: true });
+
+            expect(full.timeSeries).toHaveLength(579);
+            expect(result.timeSeries).toHaveLength(500);
+            expect(result.timeSeries[0].date).toBe('2025-06-01');
+            expect(result.timeSeries[499].date).toBe('2026-12-31');
+            const peak = full.timeSeries.reduce((best, t) => t.totalValueUsd > best.totalValueUsd ? t : best);
+            expect(peak.date).toBe('2026-01-04');
+            expect(result.timeSeries.map(t => t.date)).toContain('2026-01-04');
+
+            const day = full.timeSeries.find(t => t.date === '2026-01-20');
+            expect(Object.keys(day.allocations)).toEqual(['bifrost/vDOT/vstaking', 'bifrost/BNC-vDOT/farming']);
+            const allocations = Object.values(day.allocations);
+            expect(allocations.reduce((s, a) => s + a.valueUsd, 0)).toBeCloseTo(day.totalValueUsd, 2);
+            expect(allocations.reduce((s, a) => s + a.unclaimedRewardsUsd, 0)).toBeCloseTo(day.unclaimedRewardsUsd, 3);
+            expect(day.allocations['bifrost/BNC-vDOT/farming']).toMatchObject({ supplyApyPercent: 5, rewardApyPercent: 30 });
+        });
+
+        it('TestCase 21: reward tokens are repriced daily and the harvest policy decides where they end up', async () => {
+            // DOT stands in for the farm's reward token: $10 all month, $5 on the last day
+            const run = (policy: HarvestPolicy) => service.runBacktest({
+                initialAmountUsd: 10000,
+                from: '2026-01-01',
+                to: '2026-01-31',
+                allocations: [{
+                    protocol: 'bifrost',
+                    assetSymbol: 'BNC-vDOT',
+                    percentage: 100,
+                    poolType: PoolType.FARMING,
+                    rewardToken: { symbol: 'DOT', policy },
+                }],
+            });
+            const [reinvest, sell, hold] = await Promise.all(
+                [HarvestPolicy.REINVEST, HarvestPolicy.SELL, HarvestPolicy.HOLD].map(run),
+            );
+
+            const held = hold.breakdown[0].rewardToken;
+            expect(held).toMatchObject({ symbol: 'DOT', policy: HarvestPolicy.HOLD, priceStartUsd: 10, priceEndUsd: 5, priceChangePercent: -50 });
+            expect(held.heldUnits).toBeGreaterThan(0);
+            expect(held.heldUsd).toBeCloseTo(held.heldUnits * 5, 3);
+            expect(held.priceImpactUsd).toBeLessThan(0);
+            expect(hold.summary.rewardTokenPriceImpactUsd).toBe(held.priceImpactUsd);
+            expect(hold.ledger.some(e => e.type === LedgerEventType.REWARD_HELD)).toBe(true);
+
+            const sold = sell.breakdown[0].rewardToken;
+            expect(sold.soldUsd).toBeGreaterThan(0);
+            expect(sold.heldUnits).toBe(0);
+            expect(sell.ledger.some(e => e.type === LedgerEventType.REWARD_SOLD)).toBe(true);
+            expect(sell.ledger.some(e => e.type === LedgerEventType.REINVEST)).toBe(false);
+            expect(sell.summary.finalAmountUsd).toBeGreaterThan(hold.summary.finalAmountUsd);
+            expect(reinvest.ledger.some(e => e.type === LedgerEventType.REINVEST)).toBe(true);
+            expect(reinvest.breakdown[0].rewardToken.soldUsd).toBe(0);
+        });
+
+        it('TestCase 22: redeeming vTokens pays the fee and idles the proceeds through unbonding; dex exits pay the discount', async () => {
+            // vKSM outgrows vDOT, so every rebalance sells vKSM into vDOT (both on Bifrost — no XCM)
+            const run = (vTokenExit?: VTokenExitMode) => service.runBacktest({
+                initialAmountUsd: 10000,
+                from: '2026-01-01',
+                to: '2026-01-31',
+                rebalanceIntervalDays: 10,
+                allocations: [
+                    { protocol: 'bifrost', assetSymbol: 'vDOT', percentage: 50, poolType: PoolType.VSTAKING },
+                    { protocol: 'bifrost', assetSymbol: 'vKSM', percentage: 50, poolType: PoolType.VSTAKING },
+                ],
+                ...(vTokenExit && { vTokenExit }),
+            });
+            const [instant, redeem, dex] = await Promise.all([run(), run(VTokenExitMode.REDEEM), run(VTokenExitMode.DEX)]);
+
+            expect(instant.summary.idleCapitalUsdDays).toBe(0);
+            expect(instant.summary.vTokenCostUsd).toBeUndefined();
+            expect(instant.rebalanceEvents[0].vTokenTrades).toBeUndefined();
+
+            const [event] = redeem.rebalanceEvents;
+            const sold = -event.trades.find(t => t.assetSymbol === 'vKSM').tradeUsd;
+            expect(event.vTokenTrades).toEqual([
+                { assetSymbol: 'vDOT', action: 'mint', amountUsd: sold, costUsd: expect.closeTo(sold * 0.001, 4), unbondingDays: 0 },
+                { assetSymbol: 'vKSM', action: 'redeem', amountUsd: sold, costUsd: expect.closeTo(sold * 0.001, 4), unbondingDays: 7 },
+            ]);
+            // Day 10 proceeds idle for 7 full days, day 20 proceeds for 7, day 30 proceeds until the end
+            expect(redeem.summary.idleCapitalUsdDays).toBeGreaterThan(sold * 7);
+            const fees = redeem.ledger.filter(e => e.type === LedgerEventType.VTOKEN_FEE);
+            expect(-fees.reduce((s, e) => s + e.amountUsd, 0)).toBeCloseTo(redeem.summary.vTokenCostUsd, 3);
+            expect(redeem.summary.finalAmountUsd).toBeLessThan(instant.summary.finalAmountUsd);
+
+            expect(dex.summary.idleCapitalUsdDays).toBe(0);
+            expect(dex.rebalanceEvents[0].vTokenTrades[1]).toMatchObject({ action: 'dex_sell', unbondingDays: 0 });
+            expect(dex.rebalanceEvents[0].vTokenTrades[1].costUsd).toBeCloseTo(dex.rebalanceEvents[0].vTokenTrades[1].amountUsd * 0.01, 3);
+            expect(dex.summary.vTokenCostUsd).toBeGreaterThan(redeem.summary.vTokenCostUsd);
+        });
+
+        it('TestCase 23: TVL dilution scales reward APY by pool share and flags positions above the cap', async () => {
+            const dto = {
+                initialAmountUsd: 100000,
+                from: '2026-01-01',
+                to: '2026-01-31',
+                allocations: [
+                    { protocol: 'bifrost', assetSymbol: 'BNC-vDOT', percentage: 50, poolType: PoolType.FARMING },
+                    { protocol: 'bifrost', assetSymbol: 'vDOT', percentage: 50, poolType: PoolType.VSTAKING },
+                ],
+            };
+            const [plain, diluted] = await Promise.all([
+                service.runBacktest(dto),
+                service.runBacktest({ ...dto, tvlDilution: true }),
+            ]);
+
+            expect(plain.breakdown[0].poolShare).toBeUndefined();
+            const farm = diluted.breakdown[0];
+            // $50k into a $200k pool earns 200 / 250 of the 30% reward APY at entry
+            expect(farm.poolShare.avgRewardDilutionFactor).toBeLessThanOrEqual(0.8);
+            expect(farm.poolShare.avgRewardDilutionFactor).toBeGreaterThan(0.78);
+            expect(farm.avgRewardApyPercent).toBeCloseTo(30 * farm.poolShare.avgRewardDilutionFactor, 3);
+            expect(farm.avgSupplyApyPercent).toBe(plain.breakdown[0].avgSupplyApyPercent);
+            expect(farm.poolShare).toMatchObject({ avgTvlUsd: 200000, peakPoolShareDate: '2026-01-31', capacityUsd: 22222.22 });
+            expect(farm.poolShare.peakPoolSharePercent).toBeGreaterThan(20);
+            expect(farm.poolShare.warning).toContain('max 10%');
+            expect(diluted.breakdown[1].poolShare.warning).toContain('No TVL recorded');
+
+            expect(diluted.summary).toMatchObject({ poolShareWarningCount: 1, strategyCapacityUsd: 44444.44 });
+            expect(diluted.summary.finalAmountUsd).toBeLessThan(plain.summary.finalAmountUsd);
+        });
+
+        it('TestCase 24: stress scenarios re-run the day loop with shocks and report the delta versus the base case', async () => {
+            const dto = {
+                initialAmountUsd: 10000,
+                from: '2026-01-01',
+                to: '2026-01-31',
+                allocations: [
+                    { protocol: 'bifrost', assetSymbol: 'vDOT', percentage: 40, poolType: PoolType.VSTAKING },
+                    { protocol: 'hydration', assetSymbol: 'DOT-vDOT', percentage: 30, poolType: PoolType.DEX },
+                    { protocol: 'bifrost', assetSymbol: 'BNC-vDOT', percentage: 30, poolType: PoolType.FARMING },
+                ],
+                stressScenarios: [
+                    { name: 'vDOT depeg', shocks: [{ type: StressShockType.DEPEG, assetSymbol: 'vDOT', percent: 10, date: '2026-01-10', days: 5 }] },
+                    { name: 'Hydration exploit', shocks: [{ type: StressShockType.PROTOCOL_LOSS, protocol: 'hydration', percent: 20 }] },
+                    { name: 'Rewards off', shocks: [{ type: StressShockType.REWARD_APY_ZERO }] },
+                ],
+            };
+            const result = await service.runBacktest(dto);
+            const [depeg, exploit, rewardsOff] = result.stressTests;
+            expect(result.stressEvents).toBeUndefined();
+            expect(result.stressTests.map(t => t.name)).toEqual(['vDOT depeg', 'Hydration exploit', 'Rewards off']);
+
+            // vDOT is all of the staking position and half of each LP pair
+            const hit = depeg.events.filter(e => e.date === '2026-01-10');
+            expect(hit.map(e => e.assetSymbol)).toEqual(['vDOT', 'DOT-vDOT', 'BNC-vDOT']);
+            expect(hit[1].impactUsd / hit[0].impactUsd).toBeCloseTo((0.05 * 3000) / (0.1 * 4000), 2);
+            expect(depeg.events.filter(e => e.date === '2026-01-15').every(e => e.impactUsd > 0 && e.note === 'depeg recovered')).toBe(true);
+            expect(depeg.deltaVsBase.maxDrawdownPercent).toBeLessThan(-6);
+            expect(depeg.deltaVsBase.finalAmountUsd).toBeLessThanOrEqual(0);
+            expect(depeg.deltaVsBase.finalAmountUsd).toBeGreaterThan(-5);
+
+            // Undated shocks land mid-range; the loss stays with the protocol's positions
+            expect(exploit.shocks[0].date).toBe('2026-01-16');
+            const baseLp = result.breakdown.find(b => b.assetSymbol === 'DOT-vDOT');
+            expect(exploit.breakdown.map(b => b.deltaUsd)).toEqual([0, expect.closeTo(-0.2 * baseLp.finalUsd, 2), 0]);
+            expect(exploit.deltaVsBase.finalAmountUsd).toBeCloseTo(exploit.finalAmountUsd - result.summary.finalAmountUsd, 3);
+
+            expect(rewardsOff.events).toEqual([]);
+            expect(rewardsOff.breakdown[0].deltaUsd).toBe(0);
+            expect(rewardsOff.breakdown[2].deltaUsd).toBeLessThan(0);
+
+            await expect(service.runBacktest({
+                ...dto,
+                stressScenarios: [{ name: 'Day one', shocks: [{ type: StressShockType.PROTOCOL_LOSS, protocol: 'bifrost', percent: 5, date: '2026-01-01' }] }],
+            })).rejects.toMatchObject({ status: 400 });
+        });
+
+        describe('threshold rebalancing', () => {
+            // 10% vs 200% APY — weights drift apart by ~4 percentage points over the month
+            const baseDto = {
+                initialAmountUsd: 10000,
+                from: '2026-01-01',
+                to: '2026-01-31',
+                allocations: [
+                    { protocol: 'bifrost', assetSymbol: 'vDOT', percentage: 50, poolType: PoolType.VSTAKING },
+                    { protocol: 'bifrost', assetSymbol: 'vKSM', percentage: 50, poolType: PoolType.VSTAKING },
+                ],
+            };
+
+            it('TestCase 25: rebalances only when drift exceeds the band', async () => {
+                const result = await service.runBacktest({
+                    ...baseDto,
+                    rebalanceMode: RebalanceMode.THRESHOLD,
+                    rebalanceThresholdPercent: 1,
+                });
+
+                expect(result.rebalanceEvents.length).toBeGreaterThan(0);
+                expect(result.rebalanceEvents.length).toBeLessThan(30);
+                expect(result.summary.rebalancedCount).toBe(result.rebalanceEvents.length);
+                for (const event of result.rebalanceEvents) {
+                    expect(event.trigger).toBe('drift');
+                    expect(event.maxDriftPercent).toBeGreaterThan(1);
+                    for (const trade of event.trades) expect(trade.weightAfterPercent).toBeCloseTo(50, 4);
+                }
+            });
+
+            it('TestCase 26: partial rebalancing stops at the band edge and min trade size suppresses small trades', async () => {
+                const partial = await service.runBacktest({
+                    ...baseDto,
+                    rebalanceMode: RebalanceMode.THRESHOLD,
+                    rebalanceThresholdPercent: 1,
+                    partialRebalance: true,
+                });
+                const vksmTrade = partial.rebalanceEvents[0].trades.find(t => t.assetSymbol === 'vKSM');
+                expect(vksmTrade.weightBeforePercent).toBeGreaterThan(51);
+                expect(vksmTrade.weightAfterPercent).toBeCloseTo(51, 4);
+                expect(vksmTrade.tradeUsd).toBeLessThan(0);
+
+                const suppressed = await service.runBacktest({
+                    ...baseDto,
+                    rebalanceMode: RebalanceMode.THRESHOLD,
+                    rebalanceThresholdPercent: 1,
+                    minTradeSizeUsd: 100000,
+                });
+                expect(suppressed.rebalanceEvents).toHaveLength(0);
+            });
+
+            it('TestCase 27: a drift trigger without trades leaves pending farm rewards unclaimed', async () => {
+                const result = await service.runBacktest({
+                    initialAmountUsd: 10000,
+                    from: '2026-01-01',
+                    to: '2026-01-31',
+                    allocations: [
+                        { protocol: 'bifrost', assetSymbol: 'vKSM', percentage: 50, poolType: PoolType.VSTAKING },
+                        { protocol: 'bifrost', assetSymbol: 'BNC-vDOT', percentage: 50, poolType: PoolType.FARMING },
+                    ],
+                    isCompound: false,
+                    rebalanceMode: RebalanceMode.THRESHOLD,
+                    rebalanceThresholdPercent: 1,
+                    minTradeSizeUsd: 100000,
+                });
+                expect(result.rebalanceEvents).toHaveLength(0);
+                expect(result.ledger.filter(e => e.type === LedgerEventType.HARVEST)).toHaveLength(0);
+                expect(result.breakdown[1].yieldFarmingStats.remainingUnclaimedRewardsUsd).toBeGreaterThan(0);
+            });
+
+            it('TestCase 28: partial rebalancing with 3 allocations keeps a clamped allocation at its band edge', async () => {
+                // vKSM outgrows the others and is clamped to 22%; the residual must not push it back over the edge
+                const result = await service.runBacktest({
+                    initialAmountUsd: 10000,
+                    from: '2026-01-01',
+                    to: '2026-01-31',
+                    allocations: [
+                        { protocol: 'bifrost', assetSymbol: 'vKSM', percentage: 20, poolType: PoolType.VSTAKING },
+                        { protocol: 'bifrost', assetSymbol: 'vDOT', percentage: 40, poolType: PoolType.VSTAKING },
+                        { protocol: 'hydration', assetSymbol: 'DOT-vDOT', percentage: 40, poolType: PoolType.DEX },
+                    ],
+                    rebalanceMode: RebalanceMode.THRESHOLD,
+                    rebalanceThresholdPercent: 2,
+                    partialRebalance: true,
+                });
+                expect(result.rebalanceEvents.length).toBeGreaterThan(0);
+                for (const event of result.rebalanceEvents) {
+                    for (const trade of event.trades) {
+                        expect(Math.abs(trade.weightAfterPercent - trade.targetPercent)).toBeLessThanOrEqual(2 + 1e-4);
+                    }
+                }
+                const vksm = result.rebalanceEvents[0].trades.find(t => t.assetSymbol === 'vKSM');
+                expect(vksm.weightAfterPercent).toBeCloseTo(22, 4);
+            });
+        });
+    });
+});
@@ -5,6 +5,52 @@ import {
     HttpException,
 } from '@nestjs/common';
 import { PoolsClientService, PoolHistoryRecord, PoolSnapshot, PoolsQueryParams } from '../../common/services/pools-client.service';
+import { PriceIndexerService, DailyPriceSeries } from '../price-indexer/price-indexer.service';
+import { BIFROST_CONFIG, VTokenConfig } from '../../config/bifrost.config';
+import { avg, getApySplitForDay, getPriceForDay, splitLpSymbol } from './backtest-helpers';
+import { BacktestLedger, LedgerEventType } from './backtest-ledger';
+import {
+    LEVERAGE_DEFAULTS,
+    LeverageConfig,
+    LeverageState,
+    MAX_LEVERAGE_LOOPS,
+    createLeverageState,
+    describeLeverage,
+    openLeverage,
+    stepLeverage,
+} from './backtest-leverage';
+import { PoolShareState, TvlHistory, buildTvlHistory, createPoolShareState, describePoolShare, samplePoolShare, summarizePoolShare } from './backtest-pool-share';
+import {
+    HarvestPolicy,
+    RewardTokenConfig,
+    RewardTokenState,
+    accrueRewardTokens,
+    createRewardTokenState,
+    describeRewardToken,
+    harvestRewards,
+} from './backtest-reward-token';
+import {
+    StressEvent,
+    StressScenarioDefinition,
+    StressShock,
+    StressShockType,
+    StressTestResult,
+    applyStressShock,
+    haltStressedRewards,
+    resolveStressShocks,
+    scheduleStressShocks,
+} from './backtest-stress';
+import {
+    VTokenExitMode,
+    VTokenTrade,
+    XcmTransfer,
+    networkOf,
+    planVTokenTrades,
+    planXcmTransfers,
+    queueInTransit,
+    queueUnbonding,
+    takeIdleCapital,
+} from './backtest-transfers';
 
 // ─── DTOs ───────────────────────────────────────────────────────────────────
 
@@ -18,25 +64,324 @@ export enum PoolType {
     LP_FARM = 'lp_farm',
 }
 
+/**
+ * end_of_period = one IL haircut from start/end prices after the day loop
+ * daily         = LP allocations are revalued every day against their entry price ratio,
+ *                 so timeSeries, drawdown and Sharpe include IL
+ */
+export enum IlMode {
+    END_OF_PERIOD = 'end_of_period',
+    DAILY = 'daily',
+}
+
+/**
+ * calendar  = rebalance every `rebalanceIntervalDays`
+ * threshold = rebalance only when an allocation drifts more than `rebalanceThresholdPercent`
+ *             percentage points away from its target weight
+ */
+export enum RebalanceMode {
+    CALENDAR = 'calendar',
+    THRESHOLD = 'threshold',
+}
+
+/**
+ * usd         = every allocation is a USD balance that only grows by APY (default)
+ * token_units = positions are token quantities bought at entry and marked to market daily
+ *               from TokenPrice; LP positions move with the geometric mean of their constituents
+ */
+export enum ValuationMode {
+    USD = 'usd',
+    TOKEN_UNITS = 'token_units',
+}
+
+/**
+ * How calendar days without a usable APY observation are filled. A record with zero supply
+ * and zero reward APY counts as a gap (bad data), not as a real 0% day.
+ *   forward_fill     = last real value (back-filled from the first real value before it)
+ *   linear           = linear interpolation between the surrounding real values
+ *   zero             = 0% APY
+ *   synthetic_floor  = seeded uniform draw in [5, 8]% supply APY — deterministic per `gapSeed`
+ */
+export enum GapPolicy {
+    FORWARD_FILL = 'forward_fill',
+    LINEAR = 'linear',
+    ZERO = 'zero',
+    SYNTHETIC_FLOOR = 'synthetic_floor',
+}
+
+/** Where a day's APY came from */
+export type ApyDayStatus = 'real' | 'filled' | 'synthetic' | 'missing';
+
+export interface GapPolicyOptions {
+    policy?: GapPolicy;
+    seed?: number;
+}
+
+/**
+ * Fallback levels tried (in order) when `protocol/assetSymbol` has no history:
+ *   asset          = same assetSymbol on any protocol
+ *   underlying     = liquid-staking prefix stripped (vDOT → DOT)
+ *   lp_constituent = first LP constituent with history (DOT-vDOT → DOT)
+ *   protocol       = every pool on the same protocol
+ *   snapshot       = current APY from /pools, held flat over the whole range
+ */
+export enum ApyFallbackLevel {
+    ASSET = 'asset',
+    UNDERLYING = 'underlying',
+    LP_CONSTITUENT = 'lp_constituent',
+    PROTOCOL = 'protocol',
+    SNAPSHOT = 'snapshot',
+}
+
+export interface ResolveAllocationOptions {
+    gap?: GapPolicyOptions;
+    /** Require exact protocol/assetSymbol history for every allocation — 422 otherwise */
+    strictData?: boolean;
+    disabledFallbacks?: ApyFallbackLevel[];
+}
+
+/** Exactly which history records an allocation was simulated with */
+export interface ApyProvenance {
+    level: 'exact' | ApyFallbackLevel | 'none';
+    protocols: string[];
+    assetSymbols: string[];
+    poolTypes: string[];
+    recordCount: number;
+    firstRecordAt: string | null;
+    lastRecordAt: string | null;
+}
+
+export interface RebalanceTrade {
+    protocol: string;
+    assetSymbol: string;
+    targetPercent: number;
+    weightBeforePercent: number;
+    weightAfterPercent: number;
+    /** Positive = bought into this allocation, negative = sold out of it */
+    tradeUsd: number;
+}
+
+export interface RebalanceEvent {
+    date: string;
+    trigger: 'calendar' | 'drift' | 'phase' | 'rotation';
+    /** Largest |weight - target| across allocations when the rebalance fired */
+    maxDriftPercent: number;
+    trades: RebalanceTrade[];
+    /** Cross-network transfers behind the trades — moves within one network need none */
+    transfers: XcmTransfer[];
+    xcmFeeUsd: number;
+    slippageUsd: number;
+    /** Phase / rotation switches only: gas paid to harvest pending farm rewards before trading */
+    harvestFeeUsd?: number;
+    /** vTokenExit redeem / dex only */
+    vTokenTrades?: VTokenTrade[];
+    vTokenCostUsd?: number;
+}
+
+/**
+ * hodl      = buy the portfolio's base tokens (LP pairs split evenly) on day 0 and hold, priced from TokenPrice
+ * vdot      = 100% bifrost/vDOT staking over the same calendar
+ * risk_free = RISK_FREE_RATE compounded daily
+ */
+export enum BenchmarkType {
+    HODL = 'hodl',
+    VDOT = 'vdot',
+    RISK_FREE = 'risk_free',
+}
+
+export interface BenchmarkResult {
+    type: BenchmarkType;
+    finalAmountUsd: number | null;
+    totalReturnPercent: number | null;
+    annualizedReturnPercent: number | null;
+    /** Portfolio total return minus benchmark total return (percentage points) */
+    excessReturnPercent: number | null;
+    /** Annualized std dev of daily active returns */
+    trackingErrorPercent: number | null;
+    informationRatio: number | null;
+    /** Annualized Jensen's alpha (falls back to mean active return when beta is undefined) */
+    alphaPercent: number | null;
+    /** null when the benchmark has no return variance (e.g. risk_free) */
+    beta: number | null;
+    warning?: string;
+    timeSeries: { date: string; valueUsd: number }[];
+}
+
+/**
+ * Deposit (amountUsd > 0) or withdrawal (amountUsd < 0), split across allocations by target weight.
+ * One-off by default; set `repeatEveryDays` (and optionally `until`) for a recurring flow.
+ */
+export interface CashFlow {
+    date: string;
+    amountUsd: number;
+    repeatEveryDays?: number;
+    until?: string;
+}
+
 export interface BacktestAllocation {
     protocol: string;
     assetSymbol: string;
     percentage: number;
     poolType?: PoolType; // 'dex' | 'farming' trigger IL + split-APY logic
+    leverage?: LeverageConfig; // lending pools only
+    rewardToken?: RewardTokenConfig; // farming / dex pools only
+}
+
+/**
+ * Target allocations from `from` until the next phase starts. The request's own `allocations`
+ * are the opening phase; each switch harvests pending rewards and trades to the new targets.
+ */
+export interface AllocationPhase {
+    from: string;
+    allocations: BacktestAllocation[];
+    label?: string;
+}
+
+/** Signal a rotation rule ranks candidates by, averaged over its lookback window */
+export enum RotationRankMetric {
+    TOTAL_APY = 'total_apy',
+    SUPPLY_APY = 'supply_apy',
+    REWARD_APY = 'reward_apy',
+}
+
+export type RotationCandidate = Omit<BacktestAllocation, 'percentage'>;
+
+/**
+ * Declarative rotation: every `intervalDays`, hold the `topN` candidates (equal weight) with the
+ * best average `rankBy` over the `lookbackDays` before the decision date, skipping pools whose
+ * last known TVL is below `minTvlUsd`. Only history strictly before the decision date is used.
+ */
+export interface RotationRule {
+    candidates: RotationCandidate[];
+    intervalDays?: number;   // default: 14
+    topN?: number;           // default: 1
+    rankBy?: RotationRankMetric; // default: total_apy
+    lookbackDays?: number;   // default: 7
+    minTvlUsd?: number;      // default: no TVL filter
+}
+
+/** Costs of one target switch (phase start or rotation) */
+export interface SwitchCosts {
+    harvestFeeUsd: number;
+    xcmFeeUsd: number;
+    slippageUsd: number;
+    /** vTokenExit redeem / dex only */
+    vTokenCostUsd?: number;
+}
+
+/** One rotation decision with the ranking it was based on */
+export interface RotationDecision {
+    date: string;
+    action: 'enter' | 'rotate' | 'hold';
+    holdings: { protocol: string; assetSymbol: string; percentage: number }[];
+    ranking: {
+        protocol: string;
+        assetSymbol: string;
+        score: number | null;
+        tvlUsd: number | null;
+        dataPoints: number;
+        selected: boolean;
+        excludedReason?: string;
+    }[];
+    note?: string;
+    costs?: SwitchCosts;
 }
 
 export interface RunBacktestDto {
     initialAmountUsd: number;
     from: string;
     to: string;
-    allocations: BacktestAllocation[];
+    allocations?: BacktestAllocation[]; // required unless `rotation` is set
     rebalanceIntervalDays?: number;   // 0 = no rebalance
+    rebalanceMode?: RebalanceMode;    // calendar (default) | threshold
+    rebalanceThresholdPercent?: number; // drift band in percentage points (threshold mode, default: 5)
+    partialRebalance?: boolean;       // threshold mode: trade only back to the band edge
+    minTradeSizeUsd?: number;         // skip rebalance trades smaller than this (default: 0)
     includeIL?: boolean;
-    xcmFeeUsd?: number;               // XCM fee per rebalance event
+    ilMode?: IlMode;                  // when IL is applied (default: end_of_period)
+    xcmFeeUsd?: number;               // flat fee per XCM transfer (default: per-route fee from XCM_CONFIG)
+    vTokenExit?: VTokenExitMode;      // vToken mint/redeem handling in rebalances (default: instant)
+    tvlDilution?: boolean;            // scale reward APY by TVL / (TVL + position) (default: false)
+    maxPoolSharePercent?: number;     // warn when a position exceeds this share of its pool (default: 10)
+    stressScenarios?: StressScenarioDefinition[]; // re-run with shocks, reported as deltas vs the base case
+    stressScenarioIds?: string[];     // saved / preset scenarios — inlined into stressScenarios before the run
     isCompound?: boolean;             // compound farming rewards back into LP
     compoundFrequencyDays?: number;   // harvest every N days (default: 7)
     compoundFeeUsd?: number;          // gas fee per harvest event (default: 0.50)
     slippageTolerancePercent?: number; // 0-5%
+    benchmarks?: BenchmarkType[];     // reference series to compare against (default: none)
+    valuationMode?: ValuationMode;    // usd (default) | token_units
+    reportCurrency?: string;          // 'USD' (default) or a token symbol, e.g. 'DOT'
+    gapPolicy?: GapPolicy;            // how missing APY days are filled (default: forward_fill)
+    gapSeed?: number;                 // seed for synthetic_floor (default: 0)
+    cashFlows?: CashFlow[];           // deposits / withdrawals after the initial investment
+    phases?: AllocationPhase[];       // dated target changes after the start, in date order
+    rotation?: RotationRule;          // rule-based holdings instead of fixed allocations
+    strictData?: boolean;             // exact protocol/asset history only — 422 when missing
+    disabledFallbacks?: ApyFallbackLevel[]; // fallback levels to skip (ignored in strict mode)
+}
+
+// ─── Prepared data (shared across simulations) ──────────────────────────────
+
+export interface TokenCatalogEntry {
+    symbol: string;
+    protocols: string[];
+    poolTypes: string[];
+}
+
+/** Pool history for one date range, fetched once and indexed for the APY fallback chain */
+export interface BacktestMarketData {
+    from: string;
+    to: string;
+    tokenMap: Map<string, TokenCatalogEntry>;
+    allRecords: PoolHistoryRecord[];
+    /** "protocol/assetSymbol" → records */
+    byExact: Map<string, PoolHistoryRecord[]>;
+    /** assetSymbol → records (any protocol) */
+    byAsset: Map<string, PoolHistoryRecord[]>;
+}
+
+/** One allocation with the APY history it will be simulated with */
+export interface ResolvedAllocation {
+    alloc: BacktestAllocation;
+    apyHistory: ApySplitData;
+    /** Which protocol/asset data was actually used (with fallback indication) */
+    dataSource: string;
+    isFallbackData: boolean;
+    provenance: ApyProvenance;
+    /** Leveraged lending only: borrow APY per day (held in `supplyApy`) */
+    borrowApyHistory?: ApySplitData;
+    borrowApySource?: string;
+    /** Pool TVL per day from this exact protocol/asset's records — absent when none was recorded */
+    tvlHistory?: TvlHistory;
+}
+
+export interface BacktestContext {
+    market: BacktestMarketData;
+    allocations: ResolvedAllocation[];
+    /** Daily TokenPrice series keyed by token symbol (IL constituents) */
+    tokenPrices: Map<string, DailyPriceSeries>;
+}
+
+/** One allocation on one day of `timeSeries[].allocations` */
+export interface AllocationSeriesPoint {
+    /** Position + pending / accrued rewards — the allocations of a day sum to its totalValueUsd */
+    valueUsd: number;
+    supplyApyPercent: number;
+    rewardApyPercent: number;
+    unclaimedRewardsUsd: number;
+}
+
+export interface RunBacktestOptions {
+    /** Keep every simulated day instead of the 500-point chart downsample (file exports) */
+    fullTimeSeries?: boolean;
+}
+
+export interface SimulateOptions {
+    /** Suppress per-event debug logs, the ledger and per-allocation series (used when simulating many paths) */
+    quiet?: boolean;
+    /** Stress shocks to inject — dates must already be resolved (see resolveStressShocks) */
+    stressShocks?: StressShock[];
 }
 
 // ─── Internal types ──────────────────────────────────────────────────────────
@@ -46,16 +391,23 @@ export interface RunBacktestDto {
  *   supplyApy = trading fees (auto-compounds into LP token price – no action needed)
  *   rewardApy = farm emissions (accrues separately, requires harvest + reinvest)
  */
-interface ApySplitData {
+export interface ApySplitData {
     map: { [date: string]: { supplyApy: number; rewardApy: number } };
     sortedKeys: string[];
+    /** Per-day provenance of `map` (absent for resampled Monte Carlo paths) */
+    status?: { [date: string]: ApyDayStatus };
 }
 
-interface AllocState {
+export interface AllocState {
     protocol: string;
+    /** Network the protocol runs on (XCM_CONFIG.PROTOCOL_NETWORKS, else the protocol name) */
+    network: string;
     assetSymbol: string;
     poolType: PoolType;
+    /** Current target weight — changes at phase switches */
     percentage: number;
+    /** Target weight on the first day (basis of allocatedUsd) */
+    initialPercentage: number;
     /** Current LP token value in USD (grows via supplyApy + reinvested rewards) */
     valueUsd: number;
     apyHistory: ApySplitData;
@@ -69,14 +421,110 @@ interface AllocState {
     supplyApySamples: number[];
     /** All rewardApy values seen (for reporting) */
     rewardApySamples: number[];
-    /** Estimated IL applied at end of simulation */
+    /** Net IL applied over the simulation, from real TokenPrice data */
     ilLossUsd: number;
+    /** LP constituents with price data — set only when IL can be applied to this allocation */
+    ilTokens?: string[];
+    /** Constituent prices at position entry (start date, reset on every rebalance) */
+    ilEntryPrices?: Record<string, number>;
+    /** Current 1 + IL relative to entry (daily mode) */
+    ilFactor: number;
+    /** Worst IL % relative to entry seen during the run (daily mode) */
+    worstIlPercent: number;
+    /** Constituent price moves + IL % behind ilLossUsd (LP pairs only) */
+    impermanentLoss?: { priceChangePercent: Record<string, number>; ilPercent: number; worstIlPercent?: number };
+    /** Set when IL was requested but price data is missing or starts after the backtest does */
+    ilWarning?: string;
+    /** Tokens whose prices drive this allocation's value (token_units mode) */
+    priceTokens?: string[];
+    /** Cumulative mark-to-market gain/loss from price moves (token_units mode) */
+    priceReturnUsd: number;
+    /** Set when token_units was requested but prices are missing — allocation stays in USD */
+    priceWarning?: string;
     /** Which protocol/asset data was actually used (with fallback indication) */
     dataSource: string;
     /** True when APY data came from a fallback source (not the exact match) */
     isFallbackData: boolean;
+    provenance: ApyProvenance;
     /** Rewards accumulated without compounding (isCompound=false) */
     accruedRewardsUsd: number;
+    /** Rebalance trades and cash flows into (+) / out of (-) this allocation today — excluded from its return */
+    flowTodayUsd: number;
+    /** Net deposits (+) / withdrawals (-) routed to this allocation */
+    cashFlowUsd: number;
+    /** Net rebalance / phase-switch trades into (+) / out of (-) this allocation */
+    transferUsd: number;
+    /** Allocation value at the previous snapshot */
+    prevSnapshotUsd: number;
+    /** Flow-adjusted unit value per day (starts at 1) — basis for per-allocation risk metrics */
+    navIndex: number[];
+    /** Lending loop state — valueUsd is the loop's equity */
+    leverage?: LeverageState;
+    /** Capital bought in over XCM or still unbonding from a vToken redeem — counted in value, earns nothing */
+    inTransit: { amountUsd: number; idleDaysLeft: number }[];
+    /** Bifrost vToken staking position (mint / redeem costs apply when vTokenExit is not instant) */
+    vToken?: VTokenConfig;
+    /** Position vs pool TVL (tvlDilution / maxPoolSharePercent runs only) */
+    poolShare?: PoolShareState;
+    /** Stress runs: reward APY is 0 from this day on */
+    rewardsHaltedFrom?: string;
+    /** Emissions paid in a priced token — sold / held rewards sit in accruedRewardsUsd */
+    rewardToken?: RewardTokenState;
+}
+
+/** One phase resolved against the simulated calendar */
+interface PhaseWindow {
+    label: string;
+    /** Day index the targets take effect (0 = first day) */
+    startIndex: number;
+    allocations: BacktestAllocation[];
+    /** allocationKey → target percentage (absent = 0) */
+    targets: Map<string, number>;
+}
+
+type RotationSettings = Required<Omit<RotationRule, 'candidates' | 'minTvlUsd'>> & { minTvlUsd: number | null };
+
+/** When the targets change during a run: phase starts or rotation decisions (neither = fixed allocations) */
+interface TargetSchedule {
+    phaseWindows: PhaseWindow[];
+    /** Phases after the opening one, by the day index they start on */
+    phaseByStartIndex: Map<number, PhaseWindow>;
+    /** Per phase: NAV and portfolio value where it took over, plus what the switch cost */
+    phaseMarks: { startNav: number; startValueUsd: number; costs: SwitchCosts }[];
+    rule: RotationRule | null;
+    rotation: RotationSettings | null;
+    rotationDecisions: RotationDecision[];
+    /** allocationKey → day-0 target; null = each allocation's own percentage */
+    openingTargets: Map<string, number> | null;
+}
+
+/** One simulate() call as its day-loop steps see it: positions, ledger, resolved options and running totals */
+interface SimulationRun {
+    days: string[];
+    states: AllocState[];
+    /** allocationKey of each state */
+    stateKeys: string[];
+    tokenPrices: Map<string, DailyPriceSeries>;
+    ledger: BacktestLedger;
+    log: (msg: string) => void;
+    slippagePercent: number;
+    isCompound: boolean;
+    compoundFrequencyDays: number;
+    compoundFeeUsd: number;
+    tvlDilution: boolean;
+    xcmFeeUsd?: number;
+    vTokenExit: VTokenExitMode;
+    isDailyIl: boolean;
+    totals: {
+        slippageCostUsd: number;
+        xcmFeesPaidUsd: number;
+        xcmTransferCount: number;
+        idleCapitalUsdDays: number;
+        vTokenCostUsd: number;
+        rebalanceCount: number;
+        harvestEventsCount: number;
+    };
+    rebalanceEvents: RebalanceEvent[];
 }
 
 // ─── Helpers (module-level) ───────────────────────────────────────────────────
@@ -97,6 +545,61 @@ function isLpPairOnProtocol(
     );
 }
 
+/** Pools where supplyApy (fees) and rewardApy (emissions) are modelled separately + IL applies */
+function isYieldFarmingPool(poolType: PoolType): boolean {
+    return poolType === PoolType.FARMING ||
+        poolType === PoolType.DEX ||
+        poolType === PoolType.BLP_FARM ||
+        poolType === PoolType.LP_FARM;
+}
+
+/** mulberry32 — small deterministic PRNG returning floats in [0, 1) */
+export function createRng(seed: number): () => number {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6D2B79F5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/** 32-bit FNV-1a hash — salts the gap seed per allocation so pools don't share draws */
+function hashString(value: string): number {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        h ^= value.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+}
+
+/** Synthetic supply APY range used by GapPolicy.SYNTHETIC_FLOOR */
+const SYNTHETIC_APY_FLOOR = { min: 5, max: 8 };
+
+/** Linear-interpolated percentile of an ascending-sorted array */
+export function percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) return 0;
+    const pos = (sorted.length - 1) * (p / 100);
+    const lo = Math.floor(pos);
+    const hi = Math.ceil(pos);
+    return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+/** The vDOT benchmark: a plain liquid-staking position on Bifrost */
+const VDOT_BENCHMARK_ALLOCATION: BacktestAllocation = {
+    protocol: 'bifrost',
+    assetSymbol: 'vDOT',
+    percentage: 100,
+    poolType: PoolType.VSTAKING,
+};
+
+/** Identity of a position across phases */
+function allocationKey(alloc: Pick<BacktestAllocation, 'protocol' | 'assetSymbol' | 'poolType'>): string {
+    return `${alloc.protocol}/${alloc.assetSymbol}/${alloc.poolType ?? PoolType.UNKNOWN}`;
+}
+
 // ─── Service ─────────────────────────────────────────────────────────────────
 
 @Injectable()
@@ -104,7 +607,10 @@ export class BacktestService {
     private readonly logger = new Logger(BacktestService.name);
     private readonly RISK_FREE_RATE = 0.05; // 5% annualized
 
-    constructor(private readonly poolsClient: PoolsClientService) { }
+    constructor(
+        private readonly poolsClient: PoolsClientService,
+        private readonly priceIndexer: PriceIndexerService,
+    ) { }
 
     // ─── Proxy /pools/history endpoint ───
     async fetchApyHistory(params: {
@@ -151,40 +657,251 @@ export class BacktestService {
     }
 
     // ─── Main backtest runner ─────────────────────────────────────────────────
-    async runBacktest(dto: RunBacktestDto) {
-        const {
-            initialAmountUsd,
-            from,
-            to,
-            allocations,
-            rebalanceIntervalDays = 0,
-            includeIL = false,
-            xcmFeeUsd = 0.5,
-            isCompound = true,
-            compoundFrequencyDays = 7,   // NEW: harvest rewards every 7 days by default
-            compoundFeeUsd = 0.5,        // NEW: $0.50 gas per harvest
-            slippageTolerancePercent = 0,
-        } = dto;
+    async runBacktest(dto: RunBacktestDto, opts: RunBacktestOptions = {}) {
+        const ctx = await this.prepareBacktest(dto);
+        const result = this.simulate(dto, ctx);
+        const benchmarks = dto.benchmarks?.length
+            ? await this.computeBenchmarks(dto, ctx, result.timeSeries)
+            : undefined;
+        const stressTests = dto.stressScenarios?.length
+            ? dto.stressScenarios.map(scenario => this.runStressScenario(dto, ctx, scenario, result))
+            : undefined;
+        return {
+            ...result,
+            ...(benchmarks && { benchmarks }),
+            ...(stressTests && { stressTests }),
+            timeSeries: opts.fullTimeSeries ? result.timeSeries : this.chartTimeSeries(result.timeSeries),
+        };
+    }
+
+    /** Cap a daily `timeSeries` at 500 points for chart rendering */
+    chartTimeSeries<T extends { date: string; totalValueUsd: number }>(timeSeries: T[]): T[] {
+        return this.downsampleTimeSeries(timeSeries, 500, t => t.totalValueUsd);
+    }
+
+    /**
+     * Validate the request and load everything the day loop needs: one pool-history fetch,
+     * per-allocation APY resolution (5-level fallback) and TokenPrice series for IL.
+     * The returned context can be reused by any number of `simulate()` calls.
+     * Pass `market` to resolve against an already-fetched history snapshot.
+     */
+    async prepareBacktest(dto: RunBacktestDto, market?: BacktestMarketData): Promise<BacktestContext> {
+        const { fromDate, toDate } = this.validateBacktestDto(dto);
+        market = market ?? await this.loadMarketData(this.historyStart(dto), dto.to);
+        const allocations = await this.resolveAllocations(this.allocationUniverse(dto), market, this.resolveOptions(dto));
+        for (const resolved of allocations) {
+            if (resolved.alloc.leverage) this.resolveBorrowApy(resolved, market, this.resolveOptions(dto).gap);
+        }
 
-        // ── Validation ──
-        const totalPct = allocations.reduce((s, a) => s + a.percentage, 0);
-        if (Math.abs(totalPct - 100) > 0.01) {
+        // One TokenPrice load for IL constituents, token-unit valuation, lending loops, reward tokens and the report currency
+        const symbols = new Set<string>(dto.includeIL ? this.ilTokenSymbols(allocations) : []);
+        for (const { alloc } of allocations) {
+            if (alloc.leverage) [alloc.assetSymbol, alloc.leverage.borrowAssetSymbol].forEach(t => symbols.add(t));
+            if (alloc.rewardToken) symbols.add(alloc.rewardToken.symbol);
+        }
+        if (dto.valuationMode === ValuationMode.TOKEN_UNITS) {
+            allocations.forEach(({ alloc }) => splitLpSymbol(alloc.assetSymbol).forEach(t => symbols.add(t)));
+        }
+        const reportCurrency = this.normalizeReportCurrency(dto.reportCurrency);
+        if (reportCurrency !== 'USD') symbols.add(reportCurrency);
+
+        const tokenPrices = symbols.size > 0
+            ? await this.loadTokenPrices([...symbols], fromDate, toDate)
+            : new Map<string, DailyPriceSeries>();
+        if (reportCurrency !== 'USD' && !tokenPrices.has(reportCurrency)) {
             throw new BadRequestException(
-                `Allocations must sum to 100%. Got ${totalPct.toFixed(2)}%`,
+                `No TokenPrice history for report currency '${reportCurrency}' between ${dto.from} and ${dto.to}`,
             );
         }
+        return { market, allocations, tokenPrices };
+    }
 
-        const fromDate = new Date(from);
-        const toDate = new Date(to);
+    /** Allocation sum (or rotation rule) + date range + cash-flow + phase checks shared by every backtest entry point */
+    validateBacktestDto(
+        dto: Pick<RunBacktestDto, 'from' | 'to' | 'allocations' | 'cashFlows' | 'phases' | 'rotation' | 'stressScenarios'>,
+    ): { fromDate: Date; toDate: Date } {
+        const allAllocations = [
+            ...(dto.allocations ?? []),
+            ...(dto.phases ?? []).flatMap(p => p.allocations ?? []),
+            ...(dto.rotation?.candidates ?? []),
+        ];
+        allAllocations.filter(a => a.leverage).forEach(a => this.validateLeverage(a));
+        allAllocations.filter(a => a.rewardToken).forEach(a => this.validateRewardToken(a));
+        if (dto.rotation) {
+            this.validateRotation(dto);
+        } else {
+            const totalPct = (dto.allocations ?? []).reduce((s, a) => s + a.percentage, 0);
+            if (Math.abs(totalPct - 100) > 0.01) {
+                throw new BadRequestException(
+                    `Allocations must sum to 100%. Got ${totalPct.toFixed(2)}%`,
+                );
+            }
+        }
+
+        const fromDate = new Date(dto.from);
+        const toDate = new Date(dto.to);
         if (fromDate >= toDate) {
             throw new BadRequestException(`"from" must be before "to"`);
         }
+        if (dto.cashFlows?.length || dto.phases?.length || dto.stressScenarios?.length) {
+            const days = this.buildDayList(fromDate, toDate);
+            if (dto.cashFlows?.length) this.expandCashFlows(dto.cashFlows, days);
+            if (dto.phases?.length) this.validatePhases(dto.phases, days);
+            (dto.stressScenarios ?? []).forEach(scenario => this.validateStressScenario(scenario, days));
+        }
+        return { fromDate, toDate };
+    }
 
-        // ── Build calendar ──
-        const days = this.buildDayList(fromDate, toDate);
-        const durationDays = days.length - 1;
+    /**
+     * Shape checks for a stress scenario; with `days`, shock dates must also fall after the
+     * first day (the base case is deployed on it) and inside the range.
+     */
+    validateStressScenario(scenario: StressScenarioDefinition, days?: string[]): void {
+        const name = `Stress scenario "${scenario.name ?? ''}"`;
+        if (!scenario.name) throw new BadRequestException('Stress scenario name is required');
+        if (!scenario.shocks?.length) throw new BadRequestException(`${name}: at least one shock is required`);
+        for (const shock of scenario.shocks) {
+            if (!Object.values(StressShockType).includes(shock.type)) {
+                throw new BadRequestException(`${name}: shock type must be one of ${Object.values(StressShockType).join(', ')}`);
+            }
+            const needsPercent = shock.type !== StressShockType.REWARD_APY_ZERO;
+            if (needsPercent && !(shock.percent > 0 && shock.percent <= 100)) {
+                throw new BadRequestException(`${name}: ${shock.type} needs a percent in (0, 100]`);
+            }
+            if (shock.type === StressShockType.DEPEG && !shock.assetSymbol) {
+                throw new BadRequestException(`${name}: depeg needs an assetSymbol`);
+            }
+            if (shock.type === StressShockType.PROTOCOL_LOSS && !shock.protocol) {
+                throw new BadRequestException(`${name}: protocol_loss needs a protocol`);
+            }
+            if (shock.days !== undefined && !(Number.isInteger(shock.days) && shock.days > 0)) {
+                throw new BadRequestException(`${name}: shock days must be a positive integer`);
+            }
+            if (days && shock.date && (shock.date <= days[0] || shock.date > days[days.length - 1])) {
+                throw new BadRequestException(
+                    `${name}: shock date ${shock.date} must be after ${days[0]} and no later than ${days[days.length - 1]}`,
+                );
+            }
+        }
+    }
+
+    /** Farm emissions only — single pools fold rewards into one compounding APY */
+    private validateRewardToken(alloc: Omit<BacktestAllocation, 'percentage'>): void {
+        const name = `${alloc.protocol}/${alloc.assetSymbol}`;
+        if (!isYieldFarmingPool(alloc.poolType ?? PoolType.UNKNOWN)) {
+            throw new BadRequestException(`${name}: rewardToken is only supported for poolType "farming" or "dex"`);
+        }
+        if (!alloc.rewardToken.symbol) {
+            throw new BadRequestException(`${name}: rewardToken.symbol is required`);
+        }
+        if (alloc.rewardToken.policy && !Object.values(HarvestPolicy).includes(alloc.rewardToken.policy)) {
+            throw new BadRequestException(
+                `${name}: rewardToken.policy must be one of ${Object.values(HarvestPolicy).join(', ')}`,
+            );
+        }
+    }
+
+    /** Lending pools only; the target LTV must sit below the liquidation threshold */
+    private validateLeverage(alloc: Omit<BacktestAllocation, 'percentage'>): void {
+        const { targetLtvPercent, loops, borrowAssetSymbol } = alloc.leverage;
+        const threshold = alloc.leverage.liquidationThresholdPercent ?? LEVERAGE_DEFAULTS.liquidationThresholdPercent;
+        const penalty = alloc.leverage.liquidationPenaltyPercent ?? LEVERAGE_DEFAULTS.liquidationPenaltyPercent;
+        const name = `${alloc.protocol}/${alloc.assetSymbol}`;
 
-        // ── Parallel fetch: token catalog + pool history (with date range) ──
+        if (alloc.poolType !== PoolType.LENDING) {
+            throw new BadRequestException(`${name}: leverage is only supported for poolType "lending"`);
+        }
+        if (!borrowAssetSymbol) {
+            throw new BadRequestException(`${name}: leverage.borrowAssetSymbol is required`);
+        }
+        if (!Number.isInteger(loops) || loops < 1 || loops > MAX_LEVERAGE_LOOPS) {
+            throw new BadRequestException(`${name}: leverage.loops must be an integer between 1 and ${MAX_LEVERAGE_LOOPS}`);
+        }
+        if (!(threshold > 0 && threshold < 100) || !(penalty >= 0 && penalty < 100)) {
+            throw new BadRequestException(`${name}: liquidation threshold must be in (0, 100) and penalty in [0, 100)`);
+        }
+        if (!(targetLtvPercent > 0 && targetLtvPercent < threshold)) {
+            throw new BadRequestException(
+                `${name}: leverage.targetLtvPercent must be above 0 and below the liquidation threshold (${threshold}%)`,
+            );
+        }
+    }
+
+    /**
+     * Borrow APY for a leveraged allocation: the borrowed asset's `borrowApy` history on the same
+     * protocol (gap policy applies), else the configured `borrowApyPercent`, else 400.
+     */
+    private resolveBorrowApy(resolved: ResolvedAllocation, market: BacktestMarketData, gap: GapPolicyOptions = {}): void {
+        const { protocol, leverage } = resolved.alloc;
+        const key = `${protocol}/${leverage.borrowAssetSymbol}`;
+        const records = (market.byExact.get(key) ?? [])
+            .filter(r => typeof r.borrowApy === 'number')
+            .map(r => ({ ...r, supplyApy: r.borrowApy, rewardApy: 0, totalApy: r.borrowApy }));
+        const days = this.buildDayList(new Date(market.from), new Date(market.to));
+
+        if (records.length > 0) {
+            resolved.borrowApyHistory = this.buildApySplitMap(records, days, gap, `${key}/borrow`);
+            resolved.borrowApySource = `${key} (borrow APY history)`;
+        } else if (typeof leverage.borrowApyPercent === 'number') {
+            const map: ApySplitData['map'] = {};
+            days.forEach(d => { map[d] = { supplyApy: leverage.borrowApyPercent, rewardApy: 0 }; });
+            resolved.borrowApyHistory = { map, sortedKeys: days };
+            resolved.borrowApySource = `leverage.borrowApyPercent (${leverage.borrowApyPercent}%)`;
+        } else {
+            throw new BadRequestException(
+                `No borrow APY history for ${key} between ${market.from} and ${market.to}. Set leverage.borrowApyPercent.`,
+            );
+        }
+    }
+
+    /** A rotation rule replaces fixed allocations and phases; candidates must be distinct */
+    private validateRotation(dto: Pick<RunBacktestDto, 'allocations' | 'phases' | 'rotation'>): void {
+        const rule = dto.rotation;
+        if (dto.allocations?.length || dto.phases?.length) {
+            throw new BadRequestException('Use either "rotation" or "allocations"/"phases", not both');
+        }
+        if (!rule.candidates?.length) {
+            throw new BadRequestException('"rotation.candidates" must list at least one pool');
+        }
+        const keys = rule.candidates.map(allocationKey);
+        const duplicate = keys.find((k, idx) => keys.indexOf(k) !== idx);
+        if (duplicate) {
+            throw new BadRequestException(`Duplicate rotation candidate '${duplicate}'`);
+        }
+        const { intervalDays, topN, lookbackDays } = this.rotationSettings(rule);
+        const isPositiveInt = (v: number) => Number.isInteger(v) && v >= 1;
+        if (!isPositiveInt(intervalDays) || !isPositiveInt(lookbackDays)) {
+            throw new BadRequestException('"rotation.intervalDays" and "rotation.lookbackDays" must be positive integers');
+        }
+        if (!isPositiveInt(topN) || topN > rule.candidates.length) {
+            throw new BadRequestException(`"rotation.topN" must be an integer between 1 and ${rule.candidates.length}`);
+        }
+    }
+
+    /** Phases start strictly after the first day, inside the range, in date order, each summing to 100% */
+    private validatePhases(phases: AllocationPhase[], days: string[]): void {
+        let previous = days[0];
+        phases.forEach((phase, idx) => {
+            const start = phase.from.slice(0, 10);
+            const name = phase.label ?? `Phase ${idx + 2}`;
+            if (start <= previous || start > days[days.length - 1]) {
+                throw new BadRequestException(
+                    `${name} starts on ${start}: phases must start after ${previous} and no later than ${days[days.length - 1]}`,
+                );
+            }
+            if (!phase.allocations?.length) {
+                throw new BadRequestException(`${name} has no allocations`);
+            }
+            const phasePct = phase.allocations.reduce((s, a) => s + a.percentage, 0);
+            if (Math.abs(phasePct - 100) > 0.01) {
+                throw new BadRequestException(`${name} allocations must sum to 100%. Got ${phasePct.toFixed(2)}%`);
+            }
+            previous = start;
+        });
+    }
+
+    /** Parallel fetch: token catalog + pool history (with date range), indexed for fallback lookup */
+    async loadMarketData(from: string, to: string): Promise<BacktestMarketData> {
         const [tokenResp, histResp] = await Promise.all([
             this.poolsClient.fetchTokens(),
             this.poolsClient.fetchPoolHistory({ from, to }).catch(err => {
@@ -193,12 +910,36 @@ export class BacktestService {
             }),
         ]);
 
-        // ── Step A: Validate allocations against known pool catalog ──
-        const tokenCatalog = (tokenResp?.data || []) as Array<{
-            symbol: string; protocols: string[]; poolTypes: string[];
-        }>;
+        const tokenCatalog = (tokenResp?.data || []) as TokenCatalogEntry[];
         const tokenMap = new Map(tokenCatalog.map(t => [t.symbol, t]));
 
+        const allRecords: PoolHistoryRecord[] = histResp.data ?? [];
+        this.logger.debug(`Loaded ${allRecords.length} history records for range ${from}..${to}`);
+
+        const byExact = new Map<string, PoolHistoryRecord[]>();
+        const byAsset = new Map<string, PoolHistoryRecord[]>();
+        for (const rec of allRecords) {
+            const key = `${rec.protocol}/${rec.assetSymbol}`;
+            if (!byExact.has(key)) byExact.set(key, []);
+            byExact.get(key)!.push(rec);
+            if (!byAsset.has(rec.assetSymbol)) byAsset.set(rec.assetSymbol, []);
+            byAsset.get(rec.assetSymbol)!.push(rec);
+        }
+
+        return { from, to, tokenMap, allRecords, byExact, byAsset };
+    }
+
+    /**
+     * Validate allocations against the pool catalog (422 on unknown protocol/token combos),
+     * then resolve each allocation's APY history through the fallback chain.
+     */
+    async resolveAllocations(
+        allocations: BacktestAllocation[],
+        market: BacktestMarketData,
+        opts: ResolveAllocationOptions = {},
+    ): Promise<ResolvedAllocation[]> {
+        const days = this.buildDayList(new Date(market.from), new Date(market.to));
+        const { tokenMap } = market;
         const invalidAllocations = [];
         for (const alloc of allocations) {
             const entry = tokenMap.get(alloc.assetSymbol);
@@ -234,42 +975,51 @@ export class BacktestService {
             );
         }
 
-        // ── Step B: Use pre-fetched history ──
-        const allRecords: PoolHistoryRecord[] = histResp.data ?? [];
-        this.logger.debug(`Loaded ${allRecords.length} history records for range ${from}..${to}`);
-
-        const byExact = new Map<string, PoolHistoryRecord[]>();
-        const byAsset = new Map<string, PoolHistoryRecord[]>();
-        for (const rec of allRecords) {
-            const key = `${rec.protocol}/${rec.assetSymbol}`;
-            if (!byExact.has(key)) byExact.set(key, []);
-            byExact.get(key)!.push(rec);
-            if (!byAsset.has(rec.assetSymbol)) byAsset.set(rec.assetSymbol, []);
-            byAsset.get(rec.assetSymbol)!.push(rec);
+        // Strict mode: every allocation needs its own history — no fallback of any kind
+        if (opts.strictData) {
+            const missingExact = allocations.filter(a => !market.byExact.get(`${a.protocol}/${a.assetSymbol}`)?.length);
+            if (missingExact.length > 0) {
+                throw new HttpException(
+                    {
+                        statusCode: 422,
+                        error: 'MissingExactData',
+                        message:
+                            `${missingExact.length} allocation(s) have no exact APY history between ` +
+                            `${market.from} and ${market.to} (strictData=true).`,
+                        missingAllocations: missingExact.map(a => ({ protocol: a.protocol, assetSymbol: a.assetSymbol })),
+                    },
+                    422,
+                );
+            }
         }
+        const disabled = new Set(opts.disabledFallbacks ?? []);
+        const enabled = (level: ApyFallbackLevel) => !opts.strictData && !disabled.has(level);
 
-        const allocStates: AllocState[] = await Promise.all(allocations.map(async (alloc) => {
+        return Promise.all(allocations.map(async (alloc) => {
             const exactKey = `${alloc.protocol}/${alloc.assetSymbol}`;
-            let rawRecords = byExact.get(exactKey) ?? [];
+            let rawRecords = market.byExact.get(exactKey) ?? [];
             let dataSource = exactKey;
+            let level: ApyProvenance['level'] = rawRecords.length > 0 ? 'exact' : 'none';
 
             // Level 2: same assetSymbol, any protocol
-            if (rawRecords.length === 0) {
-                const fallback = byAsset.get(alloc.assetSymbol) ?? [];
+            if (rawRecords.length === 0 && enabled(ApyFallbackLevel.ASSET)) {
+                const fallback = market.byAsset.get(alloc.assetSymbol) ?? [];
                 if (fallback.length > 0) {
                     rawRecords = fallback;
+                    level = ApyFallbackLevel.ASSET;
                     dataSource = `${fallback[0].protocol}/${alloc.assetSymbol} (asset fallback)`;
                     this.logger.debug(`[${exactKey}] no history → using ${dataSource}`);
                 }
             }
 
             // Level 3: strip liquid staking prefix (vDOT→DOT, stKSM→KSM, sDOT→DOT)
-            if (rawRecords.length === 0) {
+            if (rawRecords.length === 0 && enabled(ApyFallbackLevel.UNDERLYING)) {
                 const underlying = this.stripLsPrefix(alloc.assetSymbol);
                 if (underlying !== alloc.assetSymbol) {
-                    const fallback = byAsset.get(underlying) ?? [];
+                    const fallback = market.byAsset.get(underlying) ?? [];
                     if (fallback.length > 0) {
                         rawRecords = fallback;
+                        level = ApyFallbackLevel.UNDERLYING;
                         dataSource = `${fallback[0].protocol}/${underlying} (underlying asset fallback)`;
                         this.logger.debug(`[${exactKey}] no history → using ${dataSource}`);
                     }
@@ -277,11 +1027,12 @@ export class BacktestService {
             }
 
             // Level 3b: LP pair — look up history for each constituent token
-            if (rawRecords.length === 0 && alloc.assetSymbol.includes('-')) {
+            if (rawRecords.length === 0 && alloc.assetSymbol.includes('-') && enabled(ApyFallbackLevel.LP_CONSTITUENT)) {
                 for (const part of alloc.assetSymbol.split('-')) {
-                    const fallback = byAsset.get(part) ?? [];
+                    const fallback = market.byAsset.get(part) ?? [];
                     if (fallback.length > 0) {
                         rawRecords = fallback;
+                        level = ApyFallbackLevel.LP_CONSTITUENT;
                         dataSource = `${fallback[0].protocol}/${part} (LP constituent fallback)`;
                         this.logger.debug(`[${exactKey}] no history → using ${dataSource}`);
                         break;
@@ -290,159 +1041,416 @@ export class BacktestService {
             }
 
             // Level 4: same protocol, any asset
-            if (rawRecords.length === 0) {
-                const protocolRecords = allRecords.filter(r => r.protocol === alloc.protocol);
+            if (rawRecords.length === 0 && enabled(ApyFallbackLevel.PROTOCOL)) {
+                const protocolRecords = market.allRecords.filter(r => r.protocol === alloc.protocol);
                 if (protocolRecords.length > 0) {
                     rawRecords = protocolRecords;
+                    level = ApyFallbackLevel.PROTOCOL;
                     dataSource = `${alloc.protocol}/* (protocol-wide APY fallback)`;
                     this.logger.debug(`[${exactKey}] no history → using ${dataSource}`);
                 }
             }
 
             // Level 5: fetch current snapshot from /pools endpoint
-            if (rawRecords.length === 0) {
+            if (rawRecords.length === 0 && enabled(ApyFallbackLevel.SNAPSHOT)) {
                 const syntheticRecord = await this.fetchLatestApySnapshot(alloc.protocol, alloc.assetSymbol);
                 if (syntheticRecord) {
                     rawRecords = [syntheticRecord];
+                    level = ApyFallbackLevel.SNAPSHOT;
                     dataSource = `${syntheticRecord.protocol}/${syntheticRecord.assetSymbol} (current snapshot fallback)`;
                     this.logger.debug(`[${exactKey}] no history → using ${dataSource}`);
                 }
             }
 
             const isFallbackData = rawRecords.length > 0 && dataSource !== exactKey;
-            const apyHistory = this.buildApySplitMap(rawRecords);
             return {
-                protocol: alloc.protocol,
-                assetSymbol: alloc.assetSymbol,
-                poolType: alloc.poolType ?? PoolType.UNKNOWN,
-                percentage: alloc.percentage,
-                valueUsd: (initialAmountUsd * (alloc.percentage / 100)) * (1 - slippageTolerancePercent / 100),
-                apyHistory,
-                unclaimedRewardsUsd: 0,
-                totalCompoundedRewardsUsd: 0,
-                totalHarvestFeesUsd: 0,
-                supplyApySamples: [],
-                rewardApySamples: [],
-                ilLossUsd: 0,
+                alloc,
+                apyHistory: this.buildApySplitMap(rawRecords, days, opts.gap ?? {}, exactKey),
                 dataSource,
                 isFallbackData,
-                accruedRewardsUsd: 0,
+                provenance: this.describeProvenance(level, rawRecords),
+                tvlHistory: buildTvlHistory(rawRecords, alloc),
             };
         }));
+    }
 
-        // ── Day-by-day simulation ─────────────────────────────────────────────
-        const isYieldFarmingPool = (poolType: PoolType) =>
-            poolType === PoolType.FARMING ||
-            poolType === PoolType.DEX ||
-            poolType === PoolType.BLP_FARM ||
-            poolType === PoolType.LP_FARM;
+    /**
+     * Every position the run may hold: the opening allocations followed by positions that
+     * only appear in later phases (percentage 0 until their phase starts).
+     */
+    private allocationUniverse(dto: RunBacktestDto): BacktestAllocation[] {
+        if (dto.rotation) return dto.rotation.candidates.map(c => ({ ...c, percentage: 0 }));
+        const seen = new Set(dto.allocations.map(allocationKey));
+        const later: BacktestAllocation[] = [];
+        for (const phase of dto.phases ?? []) {
+            for (const alloc of phase.allocations) {
+                const key = allocationKey(alloc);
+                if (seen.has(key)) continue;
+                seen.add(key);
+                later.push({ ...alloc, percentage: 0 });
+            }
+        }
+        return [...dto.allocations, ...later];
+    }
 
-        const timeSeries: {
-            date: string;
-            totalValueUsd: number;
-            dailyReturnPct: number;
-            unclaimedRewardsUsd: number;
-        }[] = [];
+    /** Rotation decisions look back before `from`, so history is fetched from that far back */
+    private historyStart(dto: RunBacktestDto): string {
+        if (!dto.rotation) return dto.from;
+        const start = new Date(dto.from);
+        start.setUTCDate(start.getUTCDate() - this.rotationSettings(dto.rotation).lookbackDays);
+        return start.toISOString().slice(0, 10);
+    }
 
-        let peakValue = initialAmountUsd;
-        let maxDrawdown = 0;
-        let xcmFeesPaidUsd = 0;
-        let slippageCostUsd = initialAmountUsd * (slippageTolerancePercent / 100);
-        let rebalanceCount = 0;
-        let prevTotalValue = initialAmountUsd;
-        let totalHarvestEventsCount = 0;
+    /** Resolution options carried on the request */
+    private resolveOptions(dto: RunBacktestDto): ResolveAllocationOptions {
+        return {
+            gap: { policy: dto.gapPolicy, seed: dto.gapSeed },
+            strictData: dto.strictData,
+            disabledFallbacks: dto.disabledFallbacks,
+        };
+    }
 
-        for (let i = 0; i < days.length; i++) {
-            const dateStr = days[i];
+    private describeProvenance(level: ApyProvenance['level'], records: PoolHistoryRecord[]): ApyProvenance {
+        const distinct = (values: (string | undefined)[]) => [...new Set(values.filter(Boolean))].sort();
+        const timestamps = records.map(r => r.dataTimestamp).sort();
+        return {
+            level,
+            protocols: distinct(records.map(r => r.protocol)),
+            assetSymbols: distinct(records.map(r => r.assetSymbol)),
+            poolTypes: distinct(records.map(r => r.poolType)),
+            recordCount: records.length,
+            firstRecordAt: timestamps[0] ?? null,
+            lastRecordAt: timestamps[timestamps.length - 1] ?? null,
+        };
+    }
 
-            // ── Apply daily growth for each allocation ──
-            for (const state of allocStates) {
-                const { supplyApy, rewardApy } = this.getApySplitForDay(state.apyHistory, dateStr);
-                state.supplyApySamples.push(supplyApy);
-                state.rewardApySamples.push(rewardApy);
-
-                if (i > 0) {
-                    const supplyDailyRate = supplyApy / 100 / 365;
-                    const rewardDailyRate = rewardApy / 100 / 365;
-
-                    if (isYieldFarmingPool(state.poolType)) {
-                        // ── Yield Farming Mode ──
-                        // 1. Trading fees auto-compound into LP token value directly
-                        state.valueUsd *= (1 + supplyDailyRate);
-
-                        // 2. Farm emission rewards accrue separately (like a pending harvest)
-                        state.unclaimedRewardsUsd += state.valueUsd * rewardDailyRate;
-
-                        if (isCompound && compoundFrequencyDays > 0 && i % compoundFrequencyDays === 0) {
-                            // ── Harvest Event ──
-                            if (state.unclaimedRewardsUsd > compoundFeeUsd) {
-                                const afterGas = state.unclaimedRewardsUsd - compoundFeeUsd;
-                                // Swap reward token → LP token pair (slippage)
-                                const afterSlippage = afterGas * (1 - slippageTolerancePercent / 100);
-                                // Reinvest into LP
-                                state.valueUsd += afterSlippage;
-                                state.totalCompoundedRewardsUsd += afterSlippage;
-                                state.totalHarvestFeesUsd += compoundFeeUsd;
-                                slippageCostUsd += afterGas * (slippageTolerancePercent / 100);
-                                totalHarvestEventsCount++;
-                                this.logger.debug(
-                                    `[${state.assetSymbol}] Harvest day ${i}: unclaimed=$${state.unclaimedRewardsUsd.toFixed(2)}, ` +
-                                    `afterGas=$${afterGas.toFixed(2)}, reinvested=$${afterSlippage.toFixed(2)}`,
-                                );
-                                state.unclaimedRewardsUsd = 0;
-                            }
-                        } else if (!isCompound) {
-                            // No compounding – rewards remain in unclaimed bucket
-                            state.accruedRewardsUsd = state.unclaimedRewardsUsd;
-                        }
-                    } else {
-                        // ── Single Pool Mode (vstaking etc.) ──
-                        // Combine supply+reward into total APY and compound as before
-                        const totalDailyRate = (supplyApy + rewardApy) / 100 / 365;
-                        if (isCompound) {
-                            state.valueUsd *= (1 + totalDailyRate);
-                        } else {
-                            state.accruedRewardsUsd += state.valueUsd * totalDailyRate;
-                        }
-                    }
-                }
+    /** Every LP constituent that may need IL */
+    private ilTokenSymbols(allocations: ResolvedAllocation[]): string[] {
+        const lpSymbols = new Set<string>();
+        for (const { alloc } of allocations) {
+            const constituents = splitLpSymbol(alloc.assetSymbol);
+            if (isYieldFarmingPool(alloc.poolType ?? PoolType.UNKNOWN) && constituents.length >= 2) {
+                constituents.forEach(t => lpSymbols.add(t));
             }
+        }
+        return [...lpSymbols];
+    }
 
-            // ── Rebalancing ──
-            const isRebalanceDay =
-                rebalanceIntervalDays > 0 && i > 0 && i % rebalanceIntervalDays === 0;
-
-            if (isRebalanceDay) {
-                const totalBefore = allocStates.reduce((s, a) => s + a.valueUsd + a.unclaimedRewardsUsd, 0);
-                const crossChainCount = this.countCrossChainHops(allocStates);
-                const feesThisRebalance = xcmFeeUsd * crossChainCount;
-                xcmFeesPaidUsd += feesThisRebalance;
-                rebalanceCount++;
+    /** 'usd' / undefined → 'USD'; token symbols keep their catalog casing (vDOT, DOT) */
+    private normalizeReportCurrency(currency?: string): string {
+        return !currency || currency.toUpperCase() === 'USD' ? 'USD' : currency;
+    }
 
-                const totalAfterFees = totalBefore - feesThisRebalance;
-                let totalSlippage = 0;
-                for (const state of allocStates) {
-                    const targetValue = totalAfterFees * (state.percentage / 100);
-                    const tradeVolume = Math.abs(state.valueUsd - targetValue);
-                    totalSlippage += tradeVolume * (slippageTolerancePercent / 100);
-                }
-                totalSlippage /= 2;
-                slippageCostUsd += totalSlippage;
+    /**
+     * Run the day-by-day simulation on a prepared context. Pure CPU — no I/O — so
+     * sweeps / Monte Carlo / rolling windows can call it many times on one dataset.
+     * Returns the full daily timeSeries (no downsampling).
+     */
+    simulate(dto: RunBacktestDto, ctx: BacktestContext, opts: SimulateOptions = {}) {
+        const {
+            initialAmountUsd,
+            from,
+            to,
+            rebalanceIntervalDays = 0,
+            rebalanceMode = RebalanceMode.CALENDAR,
+            rebalanceThresholdPercent = 5,
+            partialRebalance = false,
+            minTradeSizeUsd = 0,
+            includeIL = false,
+            ilMode = IlMode.END_OF_PERIOD,
+            xcmFeeUsd,
+            vTokenExit = VTokenExitMode.INSTANT,
+            tvlDilution = false,
+            maxPoolSharePercent = 10,
+            isCompound = true,
+            compoundFrequencyDays = 7,   // NEW: harvest rewards every 7 days by default
+            compoundFeeUsd = 0.5,        // NEW: $0.50 gas per harvest
+            slippageTolerancePercent = 0,
+            valuationMode = ValuationMode.USD,
+        } = dto;
+        const reportCurrency = this.normalizeReportCurrency(dto.reportCurrency);
+        const log = opts.quiet ? () => undefined : (msg: string) => this.logger.debug(msg);
+        const { tokenPrices } = ctx;
+
+        const fromDate = new Date(from);
+        const toDate = new Date(to);
+
+        // ── Build calendar ──
+        const days = this.buildDayList(fromDate, toDate);
+        const durationDays = days.length - 1;
+
+        // ── Target schedule: phases, a rotation rule, or simply the allocations ──
+        const entrySlippageUsd = initialAmountUsd * (slippageTolerancePercent / 100);
+        const schedule = this.openTargetSchedule(dto, ctx.market, days, entrySlippageUsd);
+        const hasPhases = schedule.phaseWindows.length > 0;
+        const openingTarget = (alloc: BacktestAllocation) =>
+            schedule.openingTargets ? schedule.openingTargets.get(allocationKey(alloc)) ?? 0 : alloc.percentage;
+
+        const isTokenUnits = valuationMode === ValuationMode.TOKEN_UNITS;
+        const trackPoolShare = tvlDilution || dto.maxPoolSharePercent !== undefined;
+        const allocStates = ctx.allocations.map(resolved => this.createAllocState(resolved, openingTarget(resolved.alloc), {
+            tokenPrices,
+            days,
+            isTokenUnits,
+            trackPoolShare,
+        }));
+        const hasLeverage = allocStates.some(state => state.leverage);
+        const hasRewardTokens = allocStates.some(state => state.rewardToken);
+        if (schedule.rotation) schedule.rotationDecisions[0].holdings = this.holdingsOf(allocStates);
+
+        // LP mark-to-market already contains the divergence loss, so no separate IL haircut
+        const applyIl = includeIL && !isTokenUnits;
+        const isDailyIl = applyIl && ilMode === IlMode.DAILY;
+
+        // ── Ledger: every money movement in the order it is applied (not kept for quiet runs) ──
+        const ledger = new BacktestLedger(allocStates, !opts.quiet, compoundFeeUsd);
+        const run: SimulationRun = {
+            days,
+            states: allocStates,
+            stateKeys: ctx.allocations.map(({ alloc }) => allocationKey(alloc)),
+            tokenPrices,
+            ledger,
+            log,
+            slippagePercent: slippageTolerancePercent,
+            isCompound,
+            compoundFrequencyDays,
+            compoundFeeUsd,
+            tvlDilution,
+            xcmFeeUsd,
+            vTokenExit,
+            isDailyIl,
+            totals: {
+                slippageCostUsd: entrySlippageUsd,
+                xcmFeesPaidUsd: 0,
+                xcmTransferCount: 0,
+                idleCapitalUsdDays: 0,
+                vTokenCostUsd: 0,
+                rebalanceCount: 0,
+                harvestEventsCount: 0,
+            },
+            rebalanceEvents: [],
+        };
+        const { totals } = run;
+
+        // ── Initial deployment ──
+        for (const state of allocStates) {
+            const depositUsd = initialAmountUsd * (state.percentage / 100);
+            if (depositUsd <= 0) continue;
+            state.valueUsd = depositUsd;
+            ledger.record(days[0], LedgerEventType.DEPOSIT, state, depositUsd);
+            state.valueUsd -= depositUsd * (slippageTolerancePercent / 100);
+            ledger.record(days[0], LedgerEventType.SLIPPAGE, state, -depositUsd * (slippageTolerancePercent / 100), { reason: 'entry' });
+        }
+
+        // ── Stress shocks (scenario re-runs only): value shocks by day, reward halts per allocation ──
+        const stressShocks = opts.stressShocks ?? [];
+        const stressSchedule = scheduleStressShocks(stressShocks, days);
+        const stressEvents: StressEvent[] = [];
+        haltStressedRewards(stressShocks, allocStates);
+
+        // ── Token-unit valuation: allocations whose tokens all have TokenPrice data ──
+        if (isTokenUnits) {
+            for (const state of allocStates) {
+                // Lending loops mark both legs to market themselves
+                if (state.leverage) continue;
+                const tokens = splitLpSymbol(state.assetSymbol);
+                const missing = tokens.filter(t => !tokenPrices.has(t));
+                if (missing.length > 0) {
+                    state.priceWarning =
+                        `Valued in USD: no TokenPrice history for ${missing.join(', ')} ` +
+                        `between ${days[0]} and ${days[days.length - 1]}.`;
+                    continue;
+                }
+                state.priceTokens = tokens;
+            }
+        }
+
+        // ── IL eligibility: LP pairs whose constituents all have TokenPrice data ──
+        if (applyIl) {
+            for (const state of allocStates) {
+                const constituents = splitLpSymbol(state.assetSymbol);
+                // Single-asset pools hold one token — no price divergence, no IL
+                if (!isYieldFarmingPool(state.poolType) || constituents.length < 2) continue;
+
+                const missing = constituents.filter(t => !tokenPrices.has(t));
+                if (missing.length > 0) {
+                    state.ilWarning =
+                        `IL not applied: no TokenPrice history for ${missing.join(', ')} ` +
+                        `between ${days[0]} and ${days[days.length - 1]}.`;
+                    continue;
+                }
+                state.ilTokens = constituents;
+                state.ilEntryPrices = this.getIlPrices(constituents, tokenPrices, days[0]);
+                // Days before a series starts reuse its first price, so no divergence is seen there
+                const late = constituents
+                    .map(t => ({ token: t, firstDay: tokenPrices.get(t)!.sortedKeys[0] }))
+                    .filter(({ firstDay }) => firstDay > days[0]);
+                if (late.length > 0) {
+                    state.ilWarning =
+                        `IL understated: TokenPrice history for ${late.map(l => `${l.token} starts on ${l.firstDay}`).join(', ')}, ` +
+                        `after the backtest start ${days[0]} — earlier days use the first recorded price.`;
+                }
+            }
+        }
+        let cumulativeIlUsd = 0;
+
+        // ── Day-by-day simulation ─────────────────────────────────────────────
+
+        const timeSeries: {
+            date: string;
+            totalValueUsd: number;
+            dailyReturnPct: number;
+            unclaimedRewardsUsd: number;
+            cumulativeIlUsd?: number;
+            valueInReportCurrency?: number;
+            cashFlowUsd?: number;
+            /** Keyed by `protocol/assetSymbol/poolType` */
+            allocations?: Record<string, AllocationSeriesPoint>;
+        }[] = [];
+
+        const cashFlowsByDay = this.expandCashFlows(dto.cashFlows ?? [], days);
+        let totalDepositsUsd = 0;
+        let totalWithdrawalsUsd = 0;
+        /** Investor-side flows for IRR: negative = money in, positive = money out */
+        const irrFlows: { dayIndex: number; amountUsd: number }[] = [{ dayIndex: 0, amountUsd: -initialAmountUsd }];
 
-                const totalAfterSlippage = totalAfterFees - totalSlippage;
+        // Time-weighted growth of 1 USD invested at the start — cash flows do not count as return
+        let twrFactor = 1;
+        let peakNav = initialAmountUsd;
+        let maxDrawdown = 0;
+        let prevTotalValue = initialAmountUsd;
+        const navSeries: number[] = [];
+
+        // ── Lending loops (opened at day-0 prices just before the day loop) ──
+        for (const state of allocStates) {
+            if (!state.leverage || state.valueUsd <= 0) continue;
+            const loopSlippageUsd = openLeverage(state, days[0], slippageTolerancePercent);
+            totals.slippageCostUsd += loopSlippageUsd;
+            ledger.record(days[0], LedgerEventType.SLIPPAGE, state, -loopSlippageUsd, { reason: 'leverage' });
+        }
+
+        for (let i = 0; i < days.length; i++) {
+            const dateStr = days[i];
+
+            // ── Token-unit mark-to-market: move each position with its token price ──
+            if (isTokenUnits && i > 0) {
+                for (const state of allocStates) {
+                    if (!state.priceTokens) continue;
+                    const factor = this.tokenPriceRelative(state.priceTokens, tokenPrices, days[i - 1], dateStr);
+                    const delta = state.valueUsd * (factor - 1);
+                    state.valueUsd += delta;
+                    state.priceReturnUsd += delta;
+                }
+            }
+
+            // ── Daily mark-to-market IL: revalue LP positions against their entry price ratio ──
+            if (isDailyIl && i > 0) {
                 for (const state of allocStates) {
-                    state.valueUsd = totalAfterSlippage * (state.percentage / 100);
-                    state.unclaimedRewardsUsd = 0; // clear unclaimed on rebalance
+                    if (!state.ilTokens) continue;
+                    const prices = this.getIlPrices(state.ilTokens, tokenPrices, dateStr);
+                    const factor = 1 + this.calculateIL(state.ilTokens.map(t => prices[t] / state.ilEntryPrices[t]));
+                    const delta = state.valueUsd * (factor / state.ilFactor - 1);
+                    state.valueUsd += delta;
+                    state.ilLossUsd -= delta;
+                    cumulativeIlUsd -= delta;
+                    state.ilFactor = factor;
+                    state.worstIlPercent = Math.min(state.worstIlPercent, (factor - 1) * 100);
+                    if (delta !== 0) ledger.record(dateStr, LedgerEventType.IL_ADJUSTMENT, state, delta, { ilPercent: parseFloat(((factor - 1) * 100).toFixed(4)) });
                 }
             }
 
+            // ── Stress shocks starting (or depegs ending) today ──
+            for (const { shock, recovery } of stressSchedule.get(dateStr) ?? []) {
+                applyStressShock(allocStates, shock, recovery, dateStr, stressEvents);
+            }
+
+            // ── Apply daily growth for each allocation ──
+            for (const state of allocStates) this.growAllocation(run, state, i);
+
+            // ── Cash flows: deposits/withdrawals split by target weight ──
+            const requestedFlowUsd = cashFlowsByDay.get(dateStr) ?? 0;
+            let cashFlowTodayUsd = 0;
+            if (requestedFlowUsd > 0) {
+                for (const state of allocStates) {
+                    const share = requestedFlowUsd * (state.percentage / 100);
+                    state.valueUsd += share * (1 - slippageTolerancePercent / 100);
+                    state.flowTodayUsd += share;
+                    state.cashFlowUsd += share;
+                    if (share <= 0) continue;
+                    const depositSlippageUsd = share * (slippageTolerancePercent / 100);
+                    ledger.record(dateStr, LedgerEventType.DEPOSIT, state, share, undefined, depositSlippageUsd);
+                    ledger.record(dateStr, LedgerEventType.SLIPPAGE, state, -depositSlippageUsd, { reason: 'deposit' });
+                }
+                totals.slippageCostUsd += requestedFlowUsd * (slippageTolerancePercent / 100);
+                cashFlowTodayUsd = requestedFlowUsd;
+                totalDepositsUsd += requestedFlowUsd;
+                irrFlows.push({ dayIndex: i, amountUsd: -requestedFlowUsd });
+            } else if (requestedFlowUsd < 0) {
+                const withdrawn = this.withdrawByTargetWeight(allocStates, -requestedFlowUsd);
+                const received = withdrawn * (1 - slippageTolerancePercent / 100);
+                totals.slippageCostUsd += withdrawn - received;
+                cashFlowTodayUsd = -withdrawn;
+                totalWithdrawalsUsd += received;
+                irrFlows.push({ dayIndex: i, amountUsd: received });
+                ledger.record(dateStr, LedgerEventType.WITHDRAWAL, null, -withdrawn, {
+                    requestedUsd: -requestedFlowUsd,
+                    receivedUsd: parseFloat(received.toFixed(4)),
+                });
+                // Paid out of the amount received, so the portfolio value does not move
+                ledger.record(dateStr, LedgerEventType.SLIPPAGE, null, received - withdrawn, { reason: 'withdrawal' });
+                if (withdrawn < -requestedFlowUsd - 1e-9) {
+                    log(`Withdrawal ${dateStr}: requested $${(-requestedFlowUsd).toFixed(2)}, only $${withdrawn.toFixed(2)} available`);
+                }
+            }
+
+            // ── Target switch (phase start / rotation decision) ──
+            // NAV at a given portfolio value before today's snapshot — where a phase switch marks its start
+            const navAt = (valueUsd: number) => prevTotalValue > 0
+                ? initialAmountUsd * twrFactor * ((valueUsd - cashFlowTodayUsd) / prevTotalValue)
+                : initialAmountUsd * twrFactor;
+            const targetSwitch = this.switchTargets(run, schedule, ctx.market, i, navAt);
+
+            // ── Rebalancing (a target switch already trades everything today) ──
+            let rebalanceTrigger: RebalanceEvent['trigger'] | null = targetSwitch?.trigger ?? null;
+            if (!targetSwitch && i > 0 && rebalanceMode === RebalanceMode.CALENDAR) {
+                if (rebalanceIntervalDays > 0 && i % rebalanceIntervalDays === 0) rebalanceTrigger = 'calendar';
+            } else if (!targetSwitch && i > 0 && rebalanceMode === RebalanceMode.THRESHOLD) {
+                if (this.maxWeightDrift(allocStates) > rebalanceThresholdPercent) rebalanceTrigger = 'drift';
+            }
+
+            if (rebalanceTrigger) {
+                this.rebalance(run, dateStr, rebalanceTrigger, targetSwitch?.costs ?? null, {
+                    bandPercent: partialRebalance && rebalanceTrigger === 'drift' ? rebalanceThresholdPercent : 0,
+                    // Leaving a position must close it completely
+                    minTradeSizeUsd: targetSwitch ? 0 : minTradeSizeUsd,
+                });
+            }
+
             // ── Snapshot ──
             const totalValue = allocStates.reduce(
                 (s, a) => s + a.valueUsd + a.unclaimedRewardsUsd + a.accruedRewardsUsd,
                 0,
             );
-            const dailyReturnPct = i === 0 ? 0 : ((totalValue - prevTotalValue) / prevTotalValue) * 100;
+            // Flows land after today's growth, so they are taken out of the end value rather than added
+            // to the opening one; day 0 captures the initial deployment cost
+            const basis = i === 0 ? initialAmountUsd : prevTotalValue;
+            const dayFactor = basis > 0 ? (totalValue - cashFlowTodayUsd) / basis : 1;
+            twrFactor *= dayFactor;
+            const dailyReturnPct = i === 0 ? 0 : (dayFactor - 1) * 100;
             prevTotalValue = totalValue;
+            const nav = initialAmountUsd * twrFactor;
+            navSeries.push(nav);
+
+            for (const state of allocStates) {
+                const value = state.valueUsd + state.unclaimedRewardsUsd + state.accruedRewardsUsd;
+                const prevIndex = state.navIndex[state.navIndex.length - 1] ?? 1;
+                const ret = i > 0 && state.prevSnapshotUsd > 0
+                    ? (value - state.flowTodayUsd) / state.prevSnapshotUsd - 1
+                    : 0;
+                state.navIndex.push(prevIndex * (1 + ret));
+                state.prevSnapshotUsd = value;
+                state.flowTodayUsd = 0;
+            }
 
             timeSeries.push({
                 date: dateStr,
@@ -451,26 +1459,61 @@ export class BacktestService {
                 unclaimedRewardsUsd: parseFloat(
                     allocStates.reduce((s, a) => s + a.unclaimedRewardsUsd, 0).toFixed(4),
                 ),
+                ...(isDailyIl && { cumulativeIlUsd: parseFloat(cumulativeIlUsd.toFixed(4)) }),
+                ...(cashFlowTodayUsd !== 0 && { cashFlowUsd: parseFloat(cashFlowTodayUsd.toFixed(4)) }),
+                ...(reportCurrency !== 'USD' && {
+                    valueInReportCurrency: parseFloat(
+                        (totalValue / getPriceForDay(tokenPrices.get(reportCurrency)!, dateStr)).toFixed(6),
+                    ),
+                }),
+                ...(!opts.quiet && {
+                    allocations: Object.fromEntries(allocStates.map((state, idx) => [run.stateKeys[idx], {
+                        valueUsd: parseFloat((state.valueUsd + state.unclaimedRewardsUsd + state.accruedRewardsUsd).toFixed(4)),
+                        supplyApyPercent: parseFloat(state.supplyApySamples[i].toFixed(4)),
+                        rewardApyPercent: parseFloat(state.rewardApySamples[i].toFixed(4)),
+                        unclaimedRewardsUsd: parseFloat(state.unclaimedRewardsUsd.toFixed(4)),
+                    }])),
+                }),
             });
 
-            if (totalValue > peakValue) peakValue = totalValue;
-            const drawdown = ((peakValue - totalValue) / peakValue) * 100;
+            if (nav > peakNav) peakNav = nav;
+            const drawdown = ((peakNav - nav) / peakNav) * 100;
             if (drawdown > maxDrawdown) maxDrawdown = drawdown;
         }
 
-        // ── Impermanent Loss (end-of-period, DEX/Farming pools) ──
-        if (includeIL) {
+        // ── Impermanent Loss (DEX/Farming LP pairs, real TokenPrice data) ──
+        if (applyIl) {
+            const startDay = days[0];
+            const endDay = days[days.length - 1];
             for (const state of allocStates) {
-                if (isYieldFarmingPool(state.poolType)) {
-                    const priceRatio = this.estimatePriceRatio(state.supplyApySamples);
-                    const il = this.calculateIL(priceRatio);
-                    const ilLoss = state.valueUsd * Math.abs(il);
-                    state.ilLossUsd = parseFloat(ilLoss.toFixed(4));
-                    state.valueUsd -= ilLoss;
-                    this.logger.debug(
-                        `[${state.assetSymbol}] IL: priceRatio=${priceRatio.toFixed(3)}, loss=$${ilLoss.toFixed(2)}`,
-                    );
+                if (!state.ilTokens) continue;
+
+                const startPrices = this.getIlPrices(state.ilTokens, tokenPrices, startDay);
+                const endPrices = this.getIlPrices(state.ilTokens, tokenPrices, endDay);
+                const priceChangePercent: Record<string, number> = {};
+                for (const t of state.ilTokens) {
+                    priceChangePercent[t] = parseFloat(((endPrices[t] / startPrices[t] - 1) * 100).toFixed(4));
+                }
+
+                if (isDailyIl) {
+                    // Already applied day by day — only report
+                    state.impermanentLoss = {
+                        priceChangePercent,
+                        ilPercent: parseFloat(((state.ilFactor - 1) * 100).toFixed(4)),
+                        worstIlPercent: parseFloat(state.worstIlPercent.toFixed(4)),
+                    };
+                    continue;
                 }
+
+                const il = this.calculateIL(state.ilTokens.map(t => endPrices[t] / startPrices[t]));
+                const ilLoss = state.valueUsd * Math.abs(il);
+                state.ilLossUsd = ilLoss;
+                state.impermanentLoss = { priceChangePercent, ilPercent: parseFloat((il * 100).toFixed(4)) };
+                state.valueUsd -= ilLoss;
+                if (ilLoss > 0) ledger.record(endDay, LedgerEventType.IL_ADJUSTMENT, state, -ilLoss, { ilPercent: parseFloat((il * 100).toFixed(4)) });
+                log(
+                    `[${state.assetSymbol}] IL: priceChanges=${JSON.stringify(priceChangePercent)}, loss=$${ilLoss.toFixed(2)}`,
+                );
             }
         }
 
@@ -479,45 +1522,89 @@ export class BacktestService {
             (s, a) => s + a.valueUsd + a.unclaimedRewardsUsd + a.accruedRewardsUsd,
             0,
         );
-        const totalReturnUsd = finalTotalUsd - initialAmountUsd;
-        const totalReturnPct = (totalReturnUsd / initialAmountUsd) * 100;
+        // End-of-period IL lands after the last snapshot — fold it into the time-weighted factor
+        if (prevTotalValue > 0) twrFactor *= finalTotalUsd / prevTotalValue;
+        irrFlows.push({ dayIndex: durationDays, amountUsd: finalTotalUsd });
+
+        // Profit = what the investor ends with + took out − what they put in
+        const totalReturnUsd = finalTotalUsd + totalWithdrawalsUsd - initialAmountUsd - totalDepositsUsd;
+        // Time-weighted, so identical to final / initial − 1 when there are no cash flows
+        const totalReturnPct = (twrFactor - 1) * 100;
         const annualizedApy =
             durationDays > 0
-                ? (Math.pow(finalTotalUsd / initialAmountUsd, 365 / durationDays) - 1) * 100
+                ? (Math.pow(twrFactor, 365 / durationDays) - 1) * 100
                 : 0;
+        const hasCashFlows = cashFlowsByDay.size > 0;
+        const irr = hasCashFlows ? this.calcIrr(irrFlows) : null;
 
         const dailyReturns = timeSeries.slice(1).map(t => t.dailyReturnPct / 100);
         const sharpeRatio = this.calcSharpe(dailyReturns);
+        const riskMetrics = this.calcRiskMetrics(navSeries, days);
+
+        // Yield component is net of harvest fees, XCM fees and slippage
+        const priceReturnUsd = allocStates.reduce((s, a) => s + a.priceReturnUsd, 0);
+        const yieldReturnUsd = totalReturnUsd - priceReturnUsd;
+
+        let denominated = null;
+        if (reportCurrency !== 'USD') {
+            const series = tokenPrices.get(reportCurrency)!;
+            const initialAmount = initialAmountUsd / getPriceForDay(series, days[0]);
+            const finalAmount = finalTotalUsd / getPriceForDay(series, days[days.length - 1]);
+            denominated = {
+                currency: reportCurrency,
+                initialAmount: parseFloat(initialAmount.toFixed(6)),
+                finalAmount: parseFloat(finalAmount.toFixed(6)),
+                totalReturnPercent: parseFloat(((finalAmount / initialAmount - 1) * 100).toFixed(4)),
+                annualizedReturnPercent: parseFloat((durationDays > 0
+                    ? (Math.pow(finalAmount / initialAmount, 365 / durationDays) - 1) * 100
+                    : 0).toFixed(4)),
+            };
+        }
 
         // ── Per-allocation breakdown ──────────────────────────────────────────
         const breakdown = allocStates.map((state) => {
-            const allocatedUsd = initialAmountUsd * (state.percentage / 100);
+            const allocatedUsd = initialAmountUsd * (state.initialPercentage / 100);
             const finalUsd = state.valueUsd + state.unclaimedRewardsUsd + state.accruedRewardsUsd;
-            const returnUsd = finalUsd - allocatedUsd;
-            const returnPct = (returnUsd / allocatedUsd) * 100;
-
-            const avgSupplyApy = this.avg(state.supplyApySamples);
-            const avgRewardApy = this.avg(state.rewardApySamples);
-            const hasHistoricalData = state.apyHistory.sortedKeys.length > 0;
+            // Money moved in by deposits, rebalances or phase switches is capital, not return
+            const returnUsd = finalUsd - allocatedUsd - state.cashFlowUsd - state.transferUsd;
+            // Positions opened by a later phase start from zero — measure against what was moved in
+            const basisUsd = allocatedUsd > 0 ? allocatedUsd : Math.max(0, state.transferUsd + state.cashFlowUsd);
+            const returnPct = basisUsd > 0 ? (returnUsd / basisUsd) * 100 : 0;
+
+            const avgSupplyApy = avg(state.supplyApySamples);
+            const avgRewardApy = avg(state.rewardApySamples);
+            const hasHistoricalData = state.apyHistory.status
+                ? Object.values(state.apyHistory.status).includes('real')
+                : state.apyHistory.sortedKeys.length > 0;
 
             const isYF = isYieldFarmingPool(state.poolType);
+            const coverage = this.summarizeCoverage(state.apyHistory, days);
 
             return {
                 protocol: state.protocol,
+                network: state.network,
                 assetSymbol: state.assetSymbol,
                 dataSource: state.dataSource,
+                provenance: state.provenance,
                 poolType: state.poolType,
-                allocationPercent: state.percentage,
+                allocationPercent: state.initialPercentage,
+                ...((hasPhases || schedule.rotation) && {
+                    finalTargetPercent: state.percentage,
+                    transferUsd: parseFloat(state.transferUsd.toFixed(4)),
+                }),
                 allocatedUsd: parseFloat(allocatedUsd.toFixed(4)),
                 finalUsd: parseFloat(finalUsd.toFixed(4)),
                 returnUsd: parseFloat(returnUsd.toFixed(4)),
                 returnPercent: parseFloat(returnPct.toFixed(4)),
+                ...(hasCashFlows && { cashFlowUsd: parseFloat(state.cashFlowUsd.toFixed(4)) }),
                 // APY breakdown
                 avgSupplyApyPercent: parseFloat(avgSupplyApy.toFixed(4)),
                 avgRewardApyPercent: parseFloat(avgRewardApy.toFixed(4)),
                 avgTotalApyPercent: parseFloat((avgSupplyApy + avgRewardApy).toFixed(4)),
                 minSupplyApyPercent: parseFloat((state.supplyApySamples.length > 0 ? Math.min(...state.supplyApySamples) : 0).toFixed(4)),
                 maxSupplyApyPercent: parseFloat((state.supplyApySamples.length > 0 ? Math.max(...state.supplyApySamples) : 0).toFixed(4)),
+                // Flow-adjusted: rebalance trades in/out of this allocation are not counted as returns
+                riskMetrics: this.calcRiskMetrics(state.navIndex, days),
                 // Yield Farming specific
                 ...(isYF && {
                     yieldFarmingStats: {
@@ -532,15 +1619,29 @@ export class BacktestService {
                             : 0,
                     },
                 }),
-                ilLossUsd: state.ilLossUsd,
+                ilLossUsd: parseFloat(state.ilLossUsd.toFixed(4)),
+                ...(state.impermanentLoss && { impermanentLoss: state.impermanentLoss }),
+                ...(state.ilWarning && { ilWarning: state.ilWarning }),
+                ...(isTokenUnits && {
+                    priceReturnUsd: parseFloat(state.priceReturnUsd.toFixed(4)),
+                    yieldReturnUsd: parseFloat((returnUsd - state.priceReturnUsd).toFixed(4)),
+                }),
+                ...(state.priceWarning && { priceWarning: state.priceWarning }),
+                ...(state.leverage && { leverage: describeLeverage(state, durationDays) }),
+                ...(state.rewardToken && { rewardToken: describeRewardToken(state, days) }),
+                ...(state.poolShare && { poolShare: describePoolShare(state, tvlDilution, maxPoolSharePercent) }),
                 accruedRewardsUsd: parseFloat((state.accruedRewardsUsd + state.unclaimedRewardsUsd).toFixed(4)),
                 dataPointsUsed: state.supplyApySamples.length,
+                ...(coverage && { coverage }),
                 hasHistoricalData,
                 ...(state.isFallbackData && {
                     warning: `No historical APY data for ${state.protocol}/${state.assetSymbol}. Using APY from: ${state.dataSource}.`,
                 }),
                 ...(!hasHistoricalData && {
-                    warning: `No APY data found for ${state.protocol}/${state.assetSymbol} even after fallback. Returns computed as 0%.`,
+                    warning: `No APY data found for ${state.protocol}/${state.assetSymbol} even after fallback. ` +
+                        (dto.gapPolicy === GapPolicy.SYNTHETIC_FLOOR
+                            ? 'APY synthesized from the seeded floor.'
+                            : 'Returns computed as 0%.'),
                 }),
             };
         });
@@ -552,83 +1653,909 @@ export class BacktestService {
                 totalReturnUsd: parseFloat(totalReturnUsd.toFixed(4)),
                 totalReturnPercent: parseFloat(totalReturnPct.toFixed(4)),
                 annualizedApyPercent: parseFloat(annualizedApy.toFixed(4)),
+                ...(hasCashFlows && {
+                    cashFlows: {
+                        totalDepositsUsd: parseFloat(totalDepositsUsd.toFixed(4)),
+                        totalWithdrawalsUsd: parseFloat(totalWithdrawalsUsd.toFixed(4)),
+                        netContributionsUsd: parseFloat((initialAmountUsd + totalDepositsUsd - totalWithdrawalsUsd).toFixed(4)),
+                        timeWeightedReturnPercent: parseFloat(totalReturnPct.toFixed(4)),
+                        moneyWeightedReturnPercent: irr !== null ? parseFloat((irr * 100).toFixed(4)) : null,
+                    },
+                }),
                 maxDrawdownPercent: parseFloat((-maxDrawdown).toFixed(4)),
                 sharpeRatio: parseFloat(sharpeRatio.toFixed(4)),
+                ...riskMetrics,
                 durationDays,
                 from: fromDate.toISOString(),
                 to: toDate.toISOString(),
-                rebalancedCount: rebalanceCount,
-                xcmFeesPaidUsd: parseFloat(xcmFeesPaidUsd.toFixed(4)),
-                slippageCostUsd: parseFloat(slippageCostUsd.toFixed(4)),
-                totalHarvestEventsCount,
+                rebalancedCount: totals.rebalanceCount,
+                rebalanceMode,
+                rebalanceThresholdPercent: rebalanceMode === RebalanceMode.THRESHOLD ? rebalanceThresholdPercent : null,
+                xcmFeesPaidUsd: parseFloat(totals.xcmFeesPaidUsd.toFixed(4)),
+                xcmTransferCount: totals.xcmTransferCount,
+                idleCapitalUsdDays: parseFloat(totals.idleCapitalUsdDays.toFixed(4)),
+                ...(vTokenExit !== VTokenExitMode.INSTANT && { vTokenCostUsd: parseFloat(totals.vTokenCostUsd.toFixed(4)) }),
+                ...(trackPoolShare && summarizePoolShare(allocStates, initialAmountUsd, maxPoolSharePercent)),
+                ...(hasRewardTokens && {
+                    rewardTokenPriceImpactUsd: parseFloat(
+                        allocStates.reduce((s, a) => s + (a.rewardToken?.priceImpactUsd ?? 0), 0).toFixed(4),
+                    ),
+                }),
+                slippageCostUsd: parseFloat(totals.slippageCostUsd.toFixed(4)),
+                totalHarvestEventsCount: totals.harvestEventsCount,
                 ilIncluded: includeIL,
+                ilMode: applyIl ? ilMode : null,
                 isCompound,
                 compoundFrequencyDays: isCompound ? compoundFrequencyDays : null,
                 compoundFeeUsd: isCompound ? compoundFeeUsd : null,
                 slippageTolerancePercent,
+                gapPolicy: dto.gapPolicy ?? GapPolicy.FORWARD_FILL,
+                strictData: dto.strictData ?? false,
+                valuationMode,
+                ...(isTokenUnits && {
+                    returnAttribution: {
+                        yieldUsd: parseFloat(yieldReturnUsd.toFixed(4)),
+                        priceUsd: parseFloat(priceReturnUsd.toFixed(4)),
+                        yieldPercent: parseFloat(((yieldReturnUsd / initialAmountUsd) * 100).toFixed(4)),
+                        pricePercent: parseFloat(((priceReturnUsd / initialAmountUsd) * 100).toFixed(4)),
+                    },
+                }),
+                reportCurrency,
+                ...(denominated && { denominated }),
             },
             breakdown,
-            // Cap at 500 points for chart rendering
-            timeSeries: this.downsampleTimeSeries(timeSeries, 500),
+            rebalanceEvents: run.rebalanceEvents,
+            ledger: ledger.entries ?? [],
+            ...(hasPhases && { phases: this.describePhases(schedule, navSeries, days, initialAmountUsd * twrFactor, finalTotalUsd) }),
+            ...(hasLeverage && {
+                liquidations: allocStates
+                    .flatMap(state => state.leverage?.liquidations ?? [])
+                    .sort((a, b) => a.date.localeCompare(b.date)),
+            }),
+            ...(stressShocks.length > 0 && { stressEvents }),
+            ...(schedule.rotation && { rotation: this.describeRotation(schedule) }),
+            timeSeries,
+        };
+    }
+
+    // ─── Day-loop steps ──────────────────────────────────────────────────────
+
+    /** Day-0 state of one allocation, with the lending-loop, reward-token and pool-share state it needs */
+    private createAllocState(
+        resolved: ResolvedAllocation,
+        percentage: number,
+        setup: { tokenPrices: Map<string, DailyPriceSeries>; days: string[]; isTokenUnits: boolean; trackPoolShare: boolean },
+    ): AllocState {
+        const { alloc, apyHistory, dataSource, isFallbackData, provenance } = resolved;
+        const { tokenPrices, days } = setup;
+        return {
+            protocol: alloc.protocol,
+            network: networkOf(alloc.protocol),
+            assetSymbol: alloc.assetSymbol,
+            poolType: alloc.poolType ?? PoolType.UNKNOWN,
+            percentage,
+            initialPercentage: percentage,
+            valueUsd: 0,
+            apyHistory,
+            unclaimedRewardsUsd: 0,
+            totalCompoundedRewardsUsd: 0,
+            totalHarvestFeesUsd: 0,
+            supplyApySamples: [],
+            rewardApySamples: [],
+            ilLossUsd: 0,
+            ilFactor: 1,
+            worstIlPercent: 0,
+            dataSource,
+            isFallbackData,
+            provenance,
+            accruedRewardsUsd: 0,
+            flowTodayUsd: 0,
+            cashFlowUsd: 0,
+            transferUsd: 0,
+            prevSnapshotUsd: 0,
+            navIndex: [],
+            priceReturnUsd: 0,
+            inTransit: [],
+            vToken: this.vTokenOf(alloc),
+            ...(alloc.leverage && { leverage: createLeverageState(resolved, tokenPrices, days[0], setup.isTokenUnits) }),
+            ...(alloc.rewardToken && { rewardToken: createRewardTokenState(alloc.rewardToken, tokenPrices, days) }),
+            ...(setup.trackPoolShare && { poolShare: createPoolShareState(resolved.tvlHistory) }),
+        };
+    }
+
+    /**
+     * One day of one allocation: sample its APYs (reward APY diluted by pool share or halted by a
+     * stress shock), then from day 1 on grow it — lending-loop interest, farm fees and emissions
+     * with scheduled harvests, or plain staking yield. Capital still in transit sits out.
+     */
+    private growAllocation(run: SimulationRun, state: AllocState, dayIndex: number): void {
+        const { days, ledger, totals } = run;
+        const dateStr = days[dayIndex];
+        const { supplyApy, rewardApy: poolRewardApy } = getApySplitForDay(state.apyHistory, dateStr);
+        const rewardApy = state.rewardsHaltedFrom && dateStr >= state.rewardsHaltedFrom
+            ? 0
+            : state.poolShare
+                ? poolRewardApy * samplePoolShare(state, dateStr, run.tvlDilution)
+                : poolRewardApy;
+        state.supplyApySamples.push(supplyApy);
+        state.rewardApySamples.push(rewardApy);
+        if (dayIndex === 0) return;
+
+        const supplyDailyRate = supplyApy / 100 / 365;
+        const rewardDailyRate = rewardApy / 100 / 365;
+        // Capital still in flight over XCM sits out (part of) today's growth
+        const idleUsd = takeIdleCapital(state);
+        state.valueUsd -= idleUsd;
+        totals.idleCapitalUsdDays += idleUsd;
+
+        if (state.leverage) {
+            // ── Lending loop: interest on both legs, health factor, liquidations ──
+            const liquidationsBefore = state.leverage.liquidations.length;
+            const loopSlippageUsd = stepLeverage(state, days[dayIndex - 1], dateStr, supplyApy + rewardApy, run.slippagePercent);
+            totals.slippageCostUsd += loopSlippageUsd;
+            ledger.record(dateStr, LedgerEventType.SLIPPAGE, state, -loopSlippageUsd, { reason: 'leverage' }, idleUsd);
+            for (const liq of state.leverage.liquidations.slice(liquidationsBefore)) {
+                ledger.record(dateStr, LedgerEventType.LIQUIDATION, state, -liq.penaltyUsd, {
+                    debtRepaidUsd: liq.debtRepaidUsd,
+                    collateralSeizedUsd: liq.collateralSeizedUsd,
+                    healthFactorBefore: liq.healthFactorBefore,
+                    healthFactorAfter: liq.healthFactorAfter,
+                }, idleUsd);
+            }
+        } else if (isYieldFarmingPool(state.poolType)) {
+            // ── Yield Farming Mode ──
+            // 1. Trading fees auto-compound into LP token value directly
+            state.valueUsd *= (1 + supplyDailyRate);
+
+            // 2. Farm emission rewards accrue separately (like a pending harvest)
+            if (state.rewardToken) {
+                accrueRewardTokens(state, dateStr, state.valueUsd * rewardDailyRate);
+            } else {
+                state.unclaimedRewardsUsd += state.valueUsd * rewardDailyRate;
+            }
+
+            if (run.isCompound && run.compoundFrequencyDays > 0 && dayIndex % run.compoundFrequencyDays === 0) {
+                // ── Harvest Event ──
+                const unclaimed = state.unclaimedRewardsUsd;
+                const harvest = harvestRewards(state, run.compoundFeeUsd, run.slippagePercent);
+                if (harvest) {
+                    totals.slippageCostUsd += harvest.slippageUsd;
+                    totals.harvestEventsCount++;
+                    ledger.recordHarvest(dateStr, state, unclaimed, harvest, idleUsd);
+                    run.log(
+                        `[${state.assetSymbol}] Harvest day ${dayIndex}: unclaimed=$${unclaimed.toFixed(2)}, ` +
+                        `afterGas=$${(unclaimed - run.compoundFeeUsd).toFixed(2)}, reinvested=$${harvest.reinvestedUsd.toFixed(2)}`,
+                    );
+                }
+            } else if (!run.isCompound && !state.rewardToken) {
+                // No compounding – rewards remain in unclaimed bucket
+                state.accruedRewardsUsd = state.unclaimedRewardsUsd;
+            }
+        } else {
+            // ── Single Pool Mode (vstaking etc.) ──
+            // Combine supply+reward into total APY and compound as before
+            const totalDailyRate = (supplyApy + rewardApy) / 100 / 365;
+            if (run.isCompound) {
+                state.valueUsd *= (1 + totalDailyRate);
+            } else {
+                state.accruedRewardsUsd += state.valueUsd * totalDailyRate;
+            }
+        }
+        state.valueUsd += idleUsd;
+    }
+
+    /** Harvest every allocation's pending rewards before trading (gas, slippage and reward policy apply) */
+    private claimPendingRewards(run: SimulationRun, dateStr: string, switchCosts: SwitchCosts | null): void {
+        for (const state of run.states) {
+            const unclaimed = state.unclaimedRewardsUsd;
+            const harvest = harvestRewards(state, run.compoundFeeUsd, run.slippagePercent);
+            if (!harvest) continue;
+            // Non-compound farms mirror pending rewards into accruedRewardsUsd — they are now in the position
+            if (!run.isCompound && isYieldFarmingPool(state.poolType) && !state.rewardToken) state.accruedRewardsUsd = 0;
+            run.ledger.recordHarvest(dateStr, state, unclaimed, harvest);
+            run.totals.slippageCostUsd += harvest.slippageUsd;
+            run.totals.harvestEventsCount++;
+            if (switchCosts) {
+                switchCosts.harvestFeeUsd += run.compoundFeeUsd;
+                switchCosts.slippageUsd += harvest.slippageUsd;
+            }
+        }
+    }
+
+    /**
+     * Trade back to the targets: claim pending rewards when anything trades, move the capital
+     * (XCM transfers, vToken mint / redeem legs), charge the costs and log the event.
+     * `switchCosts` collects the costs of a phase / rotation switch.
+     */
+    private rebalance(
+        run: SimulationRun,
+        dateStr: string,
+        trigger: RebalanceEvent['trigger'],
+        switchCosts: SwitchCosts | null,
+        planOpts: { bandPercent: number; minTradeSizeUsd: number },
+    ): void {
+        const { states, totals } = run;
+        const maxDriftPercent = this.maxWeightDrift(states);
+        let trades = this.planRebalanceTrades(states, planOpts);
+        // Pending rewards are claimed (gas + slippage) only when the rebalance really trades
+        if (trades.length > 0 && states.some(a => a.unclaimedRewardsUsd > 0)) {
+            this.claimPendingRewards(run, dateStr, switchCosts);
+            trades = this.planRebalanceTrades(states, planOpts);
+        }
+        if (trades.length === 0) return;
+
+        const transfers = planXcmTransfers(trades, run.xcmFeeUsd);
+        const feesThisRebalance = transfers.reduce((s, t) => s + t.feeUsd, 0);
+        const vTokenTrades = planVTokenTrades(trades, run.vTokenExit);
+        const vTokenCostThisRebalance = vTokenTrades.reduce((s, t) => s + t.costUsd, 0);
+        totals.vTokenCostUsd += vTokenCostThisRebalance;
+        const slippageThisRebalance =
+            trades.reduce((s, t) => s + Math.abs(t.tradeUsd), 0) * (run.slippagePercent / 100) / 2;
+        totals.xcmFeesPaidUsd += feesThisRebalance;
+        totals.xcmTransferCount += transfers.length;
+        totals.slippageCostUsd += slippageThisRebalance;
+        totals.rebalanceCount++;
+
+        const weightsBefore = this.currentWeights(states);
+        for (const t of trades) {
+            t.state.valueUsd += t.tradeUsd;
+            t.state.flowTodayUsd += t.tradeUsd;
+            t.state.transferUsd += t.tradeUsd;
+            run.ledger.record(dateStr, LedgerEventType.REBALANCE_TRADE, t.state, t.tradeUsd, { trigger });
+        }
+        if (switchCosts) {
+            switchCosts.xcmFeeUsd += feesThisRebalance;
+            switchCosts.slippageUsd += slippageThisRebalance;
+            if (vTokenTrades.length > 0) {
+                switchCosts.vTokenCostUsd = (switchCosts.vTokenCostUsd ?? 0) + vTokenCostThisRebalance;
+            }
+        }
+        this.chargeRebalanceCosts(run, dateStr, transfers, vTokenTrades, slippageThisRebalance);
+
+        const weightsAfter = this.currentWeights(states);
+        queueInTransit(trades, transfers);
+        queueUnbonding(trades, vTokenTrades);
+        for (const { state } of trades) {
+            if (run.isDailyIl && state.ilTokens) {
+                // Position is re-entered — IL so far is realized, measure from today's prices
+                state.ilEntryPrices = this.getIlPrices(state.ilTokens, run.tokenPrices, dateStr);
+                state.ilFactor = 1;
+            }
+        }
+
+        run.rebalanceEvents.push({
+            date: dateStr,
+            trigger,
+            maxDriftPercent: parseFloat(maxDriftPercent.toFixed(4)),
+            trades: trades.map(t => ({
+                protocol: t.state.protocol,
+                assetSymbol: t.state.assetSymbol,
+                targetPercent: t.state.percentage,
+                weightBeforePercent: parseFloat(weightsBefore.get(t.state).toFixed(4)),
+                weightAfterPercent: parseFloat(weightsAfter.get(t.state).toFixed(4)),
+                tradeUsd: parseFloat(t.tradeUsd.toFixed(4)),
+            })),
+            transfers: transfers.map(t => ({
+                ...t,
+                amountUsd: parseFloat(t.amountUsd.toFixed(4)),
+                feeUsd: parseFloat(t.feeUsd.toFixed(4)),
+            })),
+            xcmFeeUsd: parseFloat(feesThisRebalance.toFixed(4)),
+            slippageUsd: parseFloat(slippageThisRebalance.toFixed(4)),
+            ...(switchCosts && { harvestFeeUsd: parseFloat(switchCosts.harvestFeeUsd.toFixed(4)) }),
+            ...(run.vTokenExit !== VTokenExitMode.INSTANT && {
+                vTokenTrades: vTokenTrades.map(t => ({
+                    ...t,
+                    amountUsd: parseFloat(t.amountUsd.toFixed(4)),
+                    costUsd: parseFloat(t.costUsd.toFixed(4)),
+                })),
+                vTokenCostUsd: parseFloat(vTokenCostThisRebalance.toFixed(4)),
+            }),
+        });
+        run.log(
+            `Rebalance ${dateStr} (${trigger}): ${trades.length} trade(s), ` +
+            `drift=${maxDriftPercent.toFixed(2)}%, ${transfers.length} XCM transfer(s), fees=$${feesThisRebalance.toFixed(2)}`,
+        );
+    }
+
+    /** Costs are borne by the whole portfolio pro-rata, keeping post-trade weights intact */
+    private chargeRebalanceCosts(
+        run: SimulationRun,
+        dateStr: string,
+        transfers: XcmTransfer[],
+        vTokenTrades: VTokenTrade[],
+        slippageUsd: number,
+    ): void {
+        const { states, ledger } = run;
+        let unrecordedCostUsd = transfers.reduce((s, t) => s + t.feeUsd, 0) + slippageUsd +
+            vTokenTrades.reduce((s, t) => s + t.costUsd, 0);
+        const totalAfterTrades = states.reduce((s, a) => s + a.valueUsd, 0);
+        const costRatio = totalAfterTrades > 0 ? unrecordedCostUsd / totalAfterTrades : 0;
+        for (const state of states) state.valueUsd *= (1 - costRatio);
+
+        for (const transfer of transfers) {
+            unrecordedCostUsd -= transfer.feeUsd;
+            ledger.record(dateStr, LedgerEventType.XCM_FEE, null, -transfer.feeUsd, {
+                fromNetwork: transfer.fromNetwork,
+                toNetwork: transfer.toNetwork,
+                path: transfer.path,
+                transferUsd: parseFloat(transfer.amountUsd.toFixed(4)),
+            }, unrecordedCostUsd);
+        }
+        for (const vt of vTokenTrades) {
+            unrecordedCostUsd -= vt.costUsd;
+            ledger.record(dateStr, LedgerEventType.VTOKEN_FEE, null, -vt.costUsd, {
+                assetSymbol: vt.assetSymbol,
+                action: vt.action,
+                tradeUsd: parseFloat(vt.amountUsd.toFixed(4)),
+            }, unrecordedCostUsd);
+        }
+        ledger.record(dateStr, LedgerEventType.SLIPPAGE, null, -slippageUsd, { reason: 'rebalance' });
+    }
+
+    // ─── Phases and rotation ─────────────────────────────────────────────────
+
+    /**
+     * Resolve the phase list against the simulated calendar. Phases that started on or before
+     * the first day (e.g. a rolling window opening mid-schedule) collapse into the opening
+     * phase; phases after the last day are dropped.
+     */
+    private buildPhaseWindows(dto: RunBacktestDto, days: string[]): PhaseWindow[] {
+        const toWindow = (label: string, startIndex: number, allocations: BacktestAllocation[]): PhaseWindow => ({
+            label,
+            startIndex,
+            allocations,
+            targets: new Map(allocations.map(a => [allocationKey(a), a.percentage])),
+        });
+
+        let windows = [toWindow('Phase 1', 0, dto.allocations)];
+        (dto.phases ?? []).forEach((phase, idx) => {
+            const label = phase.label ?? `Phase ${idx + 2}`;
+            const start = phase.from.slice(0, 10);
+            if (start <= days[0]) windows = [toWindow(label, 0, phase.allocations)];
+            else if (start <= days[days.length - 1]) windows.push(toWindow(label, days.indexOf(start), phase.allocations));
+        });
+        return windows;
+    }
+
+    private rotationSettings(rule: RotationRule): RotationSettings {
+        return {
+            intervalDays: rule.intervalDays ?? 14,
+            topN: rule.topN ?? 1,
+            rankBy: rule.rankBy ?? RotationRankMetric.TOTAL_APY,
+            lookbackDays: rule.lookbackDays ?? 7,
+            minTvlUsd: rule.minTvlUsd ?? null,
+        };
+    }
+
+    /**
+     * Rank the rotation candidates on exact protocol/asset history in [date - lookbackDays, date)
+     * — nothing from the decision day or later — and return equal-weight targets for the top N.
+     * Returns null targets when no candidate qualifies.
+     */
+    private decideRotation(
+        rule: RotationRule,
+        market: BacktestMarketData,
+        date: string,
+    ): { targets: Map<string, number> | null; ranking: RotationDecision['ranking'] } {
+        const { topN, rankBy, lookbackDays, minTvlUsd } = this.rotationSettings(rule);
+        const windowStart = new Date(date);
+        windowStart.setUTCDate(windowStart.getUTCDate() - lookbackDays);
+        const since = windowStart.toISOString().slice(0, 10);
+
+        const scored = rule.candidates.map((candidate) => {
+            const records = (market.byExact.get(`${candidate.protocol}/${candidate.assetSymbol}`) ?? [])
+                .filter(r => {
+                    const day = r.dataTimestamp.slice(0, 10);
+                    return day >= since && day < date;
+                })
+                .sort((a, b) => a.dataTimestamp.localeCompare(b.dataTimestamp));
+            const values = records.map(r => {
+                const supply = r.supplyApy ?? 0;
+                const reward = r.rewardApy ?? 0;
+                if (rankBy === RotationRankMetric.SUPPLY_APY) return supply;
+                if (rankBy === RotationRankMetric.REWARD_APY) return reward;
+                return r.totalApy ?? supply + reward;
+            });
+            const tvlRecord = [...records].reverse().find(r => typeof r.tvlUsd === 'number');
+            const tvlUsd = tvlRecord ? tvlRecord.tvlUsd : null;
+
+            let excludedReason: string | undefined;
+            if (records.length === 0) excludedReason = `no history in the ${lookbackDays} days before ${date}`;
+            else if (minTvlUsd !== null && tvlUsd === null) excludedReason = 'TVL unknown';
+            else if (minTvlUsd !== null && tvlUsd < minTvlUsd) excludedReason = `TVL below $${minTvlUsd}`;
+
+            return {
+                candidate,
+                score: values.length > 0 ? avg(values) : null,
+                tvlUsd,
+                dataPoints: records.length,
+                excludedReason,
+            };
+        });
+
+        const selected = scored
+            .filter(s => !s.excludedReason)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, topN);
+        const weight = selected.length > 0 ? 100 / selected.length : 0;
+
+        return {
+            targets: selected.length > 0 ? new Map(selected.map(s => [allocationKey(s.candidate), weight])) : null,
+            ranking: [...scored]
+                .sort((a, b) => (b.score ?? -Infinity) - (a.score ?? -Infinity))
+                .map(s => ({
+                    protocol: s.candidate.protocol,
+                    assetSymbol: s.candidate.assetSymbol,
+                    score: s.score !== null ? parseFloat(s.score.toFixed(4)) : null,
+                    tvlUsd: s.tvlUsd,
+                    dataPoints: s.dataPoints,
+                    selected: selected.includes(s),
+                    ...(s.excludedReason && { excludedReason: s.excludedReason }),
+                })),
+        };
+    }
+
+    /**
+     * The run's target schedule. Rotation runs enter on a day-0 ranking — every candidate at
+     * equal weight when none qualifies — and phase runs open with their first phase.
+     */
+    private openTargetSchedule(
+        dto: RunBacktestDto,
+        market: BacktestMarketData,
+        days: string[],
+        entrySlippageUsd: number,
+    ): TargetSchedule {
+        const phaseWindows = (dto.phases?.length ?? 0) > 0 ? this.buildPhaseWindows(dto, days) : [];
+        const schedule: TargetSchedule = {
+            phaseWindows,
+            phaseByStartIndex: new Map(phaseWindows.slice(1).map(p => [p.startIndex, p])),
+            phaseMarks: phaseWindows.map((_, idx) => ({
+                startNav: dto.initialAmountUsd,
+                startValueUsd: dto.initialAmountUsd,
+                costs: { harvestFeeUsd: 0, xcmFeeUsd: 0, slippageUsd: idx === 0 ? entrySlippageUsd : 0 },
+            })),
+            rule: dto.rotation ?? null,
+            rotation: dto.rotation ? this.rotationSettings(dto.rotation) : null,
+            rotationDecisions: [],
+            openingTargets: phaseWindows.length > 0 ? phaseWindows[0].targets : null,
+        };
+        if (!dto.rotation) return schedule;
+
+        const { candidates } = dto.rotation;
+        const decision = this.decideRotation(dto.rotation, market, days[0]);
+        // Nothing to rank before the start — spread evenly rather than sit in cash
+        schedule.openingTargets = decision.targets ?? new Map(candidates.map(c => [allocationKey(c), 100 / candidates.length]));
+        schedule.rotationDecisions.push({
+            date: days[0],
+            action: 'enter',
+            holdings: [],
+            ranking: decision.ranking,
+            ...(!decision.targets && { note: 'No candidate qualified — entered all candidates at equal weight' }),
+            costs: { harvestFeeUsd: 0, xcmFeeUsd: 0, slippageUsd: entrySlippageUsd },
+        });
+        return schedule;
+    }
+
+    /**
+     * Phase start or rotation decision on `dayIndex`: claim pending farm rewards and set the new
+     * targets — the rebalance that follows trades everything to them. Every rotation decision is
+     * logged with the holdings it leaves. Null when the targets stay as they are.
+     */
+    private switchTargets(
+        run: SimulationRun,
+        schedule: TargetSchedule,
+        market: BacktestMarketData,
+        dayIndex: number,
+        navAt: (valueUsd: number) => number,
+    ): { trigger: 'phase' | 'rotation'; costs: SwitchCosts } | null {
+        const { states, stateKeys } = run;
+        const dateStr = run.days[dayIndex];
+        const { rotation, rotationDecisions } = schedule;
+        const costs: SwitchCosts = { harvestFeeUsd: 0, xcmFeeUsd: 0, slippageUsd: 0 };
+        const phase = schedule.phaseByStartIndex.get(dayIndex);
+        let targets: Map<string, number> | null = null;
+
+        if (phase) {
+            targets = phase.targets;
+            const valueBefore = states.reduce((s, a) => s + a.valueUsd + a.unclaimedRewardsUsd + a.accruedRewardsUsd, 0);
+            schedule.phaseMarks[schedule.phaseWindows.indexOf(phase)] = { startNav: navAt(valueBefore), startValueUsd: valueBefore, costs };
+        } else if (rotation && dayIndex > 0 && dayIndex % rotation.intervalDays === 0) {
+            const decision = this.decideRotation(schedule.rule, market, dateStr);
+            const changed = !!decision.targets &&
+                stateKeys.some((key, idx) => (decision.targets.get(key) ?? 0) !== states[idx].percentage);
+            if (changed) targets = decision.targets;
+            rotationDecisions.push({
+                date: dateStr,
+                action: changed ? 'rotate' : 'hold',
+                holdings: [],
+                ranking: decision.ranking,
+                ...(!decision.targets && { note: 'No candidate qualified — holdings kept' }),
+                ...(changed && { costs }),
+            });
+        }
+
+        if (targets) {
+            this.claimPendingRewards(run, dateStr, costs);
+            states.forEach((state, idx) => { state.percentage = targets.get(stateKeys[idx]) ?? 0; });
+            run.log(`Target switch ${dateStr} (${phase ? 'phase' : 'rotation'})${phase ? `: ${phase.label}` : ''}`);
+        }
+        if (rotation && rotationDecisions[rotationDecisions.length - 1].date === dateStr && dayIndex > 0) {
+            rotationDecisions[rotationDecisions.length - 1].holdings = this.holdingsOf(states);
+        }
+        return targets ? { trigger: phase ? 'phase' : 'rotation', costs } : null;
+    }
+
+    private holdingsOf(states: AllocState[]): RotationDecision['holdings'] {
+        return states
+            .filter(state => state.percentage > 0)
+            .map(state => ({
+                protocol: state.protocol,
+                assetSymbol: state.assetSymbol,
+                percentage: parseFloat(state.percentage.toFixed(4)),
+            }));
+    }
+
+    /** Per-phase performance: a phase runs from its switch (entry costs included) to just before the next one */
+    private describePhases(schedule: TargetSchedule, navSeries: number[], days: string[], finalNav: number, finalValueUsd: number) {
+        const { phaseWindows, phaseMarks } = schedule;
+        const durationDays = days.length - 1;
+        return phaseWindows.map((window, idx) => {
+            const mark = phaseMarks[idx];
+            const next = phaseWindows[idx + 1];
+            const endIndex = next ? next.startIndex : durationDays;
+            const endNav = next ? phaseMarks[idx + 1].startNav : finalNav;
+            const endValueUsd = next ? phaseMarks[idx + 1].startValueUsd : finalValueUsd;
+            const phaseDays = endIndex - window.startIndex;
+            const growth = mark.startNav > 0 ? endNav / mark.startNav : 1;
+
+            const navPath = [mark.startNav, ...navSeries.slice(window.startIndex, next ? endIndex : endIndex + 1), endNav];
+            let peak = navPath[0];
+            let worstDrawdown = 0;
+            for (const nav of navPath) {
+                peak = Math.max(peak, nav);
+                worstDrawdown = Math.max(worstDrawdown, peak > 0 ? ((peak - nav) / peak) * 100 : 0);
+            }
+
+            return {
+                label: window.label,
+                from: days[window.startIndex],
+                to: days[endIndex],
+                durationDays: phaseDays,
+                allocations: window.allocations.map(a => ({
+                    protocol: a.protocol,
+                    assetSymbol: a.assetSymbol,
+                    percentage: a.percentage,
+                    ...(a.poolType && { poolType: a.poolType }),
+                })),
+                startValueUsd: parseFloat(mark.startValueUsd.toFixed(4)),
+                endValueUsd: parseFloat(endValueUsd.toFixed(4)),
+                returnPercent: parseFloat(((growth - 1) * 100).toFixed(4)),
+                annualizedReturnPercent: parseFloat((phaseDays > 0 ? (Math.pow(growth, 365 / phaseDays) - 1) * 100 : 0).toFixed(4)),
+                maxDrawdownPercent: parseFloat((-worstDrawdown).toFixed(4)),
+                entryCosts: this.roundSwitchCosts(mark.costs),
+            };
+        });
+    }
+
+    private describeRotation(schedule: TargetSchedule) {
+        const { rotationDecisions } = schedule;
+        return {
+            ...schedule.rotation,
+            candidates: schedule.rule.candidates,
+            rotationCount: rotationDecisions.filter(d => d.action === 'rotate').length,
+            decisions: rotationDecisions.map(d => ({ ...d, ...(d.costs && { costs: this.roundSwitchCosts(d.costs) }) })),
+        };
+    }
+
+    // ─── Stress scenarios ────────────────────────────────────────────────────
+
+    /** Re-run the prepared base case with one scenario's shocks and report it against the base */
+    private runStressScenario(
+        dto: RunBacktestDto,
+        ctx: BacktestContext,
+        scenario: StressScenarioDefinition,
+        base: ReturnType<BacktestService['simulate']>,
+    ): StressTestResult {
+        const shocks = resolveStressShocks(scenario.shocks, this.buildDayList(new Date(dto.from), new Date(dto.to)));
+        const stressed = this.simulate(dto, ctx, { quiet: true, stressShocks: shocks });
+        const delta = (key: 'finalAmountUsd' | 'totalReturnPercent' | 'annualizedApyPercent' | 'maxDrawdownPercent') =>
+            parseFloat((stressed.summary[key] - base.summary[key]).toFixed(4));
+        return {
+            name: scenario.name,
+            ...(scenario.description && { description: scenario.description }),
+            shocks,
+            finalAmountUsd: stressed.summary.finalAmountUsd,
+            totalReturnPercent: stressed.summary.totalReturnPercent,
+            annualizedApyPercent: stressed.summary.annualizedApyPercent,
+            maxDrawdownPercent: stressed.summary.maxDrawdownPercent,
+            deltaVsBase: {
+                finalAmountUsd: delta('finalAmountUsd'),
+                totalReturnPercent: delta('totalReturnPercent'),
+                annualizedApyPercent: delta('annualizedApyPercent'),
+                maxDrawdownPercent: delta('maxDrawdownPercent'),
+            },
+            breakdown: stressed.breakdown.map((b, idx) => ({
+                protocol: b.protocol,
+                assetSymbol: b.assetSymbol,
+                finalUsd: b.finalUsd,
+                deltaUsd: parseFloat((b.finalUsd - base.breakdown[idx].finalUsd).toFixed(4)),
+            })),
+            events: stressed.stressEvents ?? [],
+        };
+    }
+
+    // ─── Benchmarks ──────────────────────────────────────────────────────────
+
+    /**
+     * Build each requested benchmark over the portfolio's calendar and compare daily returns.
+     * A benchmark that cannot be built is returned with a `warning` and null metrics.
+     */
+    private async computeBenchmarks(
+        dto: RunBacktestDto,
+        ctx: BacktestContext,
+        timeSeries: { date: string; totalValueUsd: number; dailyReturnPct: number }[],
+    ): Promise<BenchmarkResult[]> {
+        const days = timeSeries.map(t => t.date);
+        // With cash flows, balances jump on flow days — compare the flow-adjusted path instead
+        const portfolio = [timeSeries[0].totalValueUsd];
+        for (let i = 1; i < timeSeries.length; i++) {
+            portfolio.push(dto.cashFlows?.length
+                ? portfolio[i - 1] * (1 + timeSeries[i].dailyReturnPct / 100)
+                : timeSeries[i].totalValueUsd);
+        }
+
+        const results: BenchmarkResult[] = [];
+        for (const type of new Set(dto.benchmarks)) {
+            const { values, warning } = await this.buildBenchmarkSeries(type, dto, ctx, days);
+            results.push({
+                type,
+                ...this.compareToBenchmark(portfolio, values, days.length - 1),
+                ...(warning && { warning }),
+                timeSeries: values
+                    ? this.downsampleTimeSeries(
+                        days.map((date, i) => ({ date, valueUsd: parseFloat(values[i].toFixed(4)) })),
+                        500,
+                        t => t.valueUsd,
+                    )
+                    : [],
+            });
+        }
+        return results;
+    }
+
+    private async buildBenchmarkSeries(
+        type: BenchmarkType,
+        dto: RunBacktestDto,
+        ctx: BacktestContext,
+        days: string[],
+    ): Promise<{ values: number[] | null; warning?: string }> {
+        const { initialAmountUsd } = dto;
+
+        if (type === BenchmarkType.RISK_FREE) {
+            const rfDaily = this.RISK_FREE_RATE / 365;
+            return { values: days.map((_, i) => initialAmountUsd * Math.pow(1 + rfDaily, i)) };
+        }
+
+        if (type === BenchmarkType.VDOT) {
+            try {
+                const [resolved] = await this.resolveAllocations(
+                    [VDOT_BENCHMARK_ALLOCATION],
+                    ctx.market,
+                    this.resolveOptions(dto),
+                );
+                const { timeSeries } = this.simulate(
+                    { initialAmountUsd, from: dto.from, to: dto.to, allocations: [VDOT_BENCHMARK_ALLOCATION] },
+                    { ...ctx, allocations: [resolved] },
+                    { quiet: true },
+                );
+                return {
+                    values: timeSeries.map(t => t.totalValueUsd),
+                    ...(resolved.isFallbackData && { warning: `vDOT benchmark uses ${resolved.dataSource}` }),
+                };
+            } catch (err) {
+                return { values: null, warning: `vDOT benchmark unavailable: ${err.message}` };
+            }
+        }
+
+        // HODL: each allocation's USD split evenly across its base tokens on day 0
+        // (a rotation has no fixed weights — the candidate set is held evenly)
+        const weights = new Map<string, number>();
+        for (const { alloc } of ctx.allocations) {
+            const tokens = splitLpSymbol(alloc.assetSymbol);
+            const percentage = dto.rotation ? 100 / ctx.allocations.length : alloc.percentage;
+            for (const t of tokens) weights.set(t, (weights.get(t) ?? 0) + percentage / tokens.length);
+        }
+        const prices = await this.loadTokenPrices(
+            [...weights.keys()],
+            new Date(days[0]),
+            new Date(days[days.length - 1]),
+        );
+        const missing = [...weights.keys()].filter(t => !prices.has(t));
+        const priced = [...weights].filter(([t]) => prices.has(t));
+        if (priced.length === 0) {
+            return { values: null, warning: `HODL benchmark unavailable: no TokenPrice history for ${missing.join(', ')}` };
+        }
+
+        const pricedWeight = priced.reduce((s, [, w]) => s + w, 0);
+        const units = priced.map(([t, w]) => ({
+            series: prices.get(t)!,
+            amount: (initialAmountUsd * (w / pricedWeight)) / getPriceForDay(prices.get(t)!, days[0]),
+        }));
+        return {
+            values: days.map(d => units.reduce((s, u) => s + u.amount * getPriceForDay(u.series, d), 0)),
+            ...(missing.length > 0 && {
+                warning: `No TokenPrice history for ${missing.join(', ')} — HODL weights renormalized over the remaining tokens`,
+            }),
+        };
+    }
+
+    /** Relative performance of the portfolio vs one benchmark series on the same calendar */
+    private compareToBenchmark(portfolio: number[], benchmark: number[] | null, durationDays: number) {
+        if (!benchmark) {
+            return {
+                finalAmountUsd: null,
+                totalReturnPercent: null,
+                annualizedReturnPercent: null,
+                excessReturnPercent: null,
+                trackingErrorPercent: null,
+                informationRatio: null,
+                alphaPercent: null,
+                beta: null,
+            };
+        }
+
+        const toReturns = (values: number[]) => values.slice(1).map((v, i) => (values[i] > 0 ? v / values[i] - 1 : 0));
+        const rp = toReturns(portfolio);
+        const rb = toReturns(benchmark);
+        const active = rp.map((r, i) => r - rb[i]);
+
+        const totalReturn = (values: number[]) => (values[values.length - 1] / values[0] - 1) * 100;
+        const benchmarkFinal = benchmark[benchmark.length - 1];
+        const annualized = durationDays > 0
+            ? (Math.pow(benchmarkFinal / benchmark[0], 365 / durationDays) - 1) * 100
+            : 0;
+
+        const trackingError = Math.sqrt(this.covariance(active, active)) * Math.sqrt(365);
+        const benchmarkVariance = this.covariance(rb, rb);
+        // Below this the benchmark is effectively a straight line and beta is meaningless
+        const beta = benchmarkVariance > 1e-12 ? this.covariance(rp, rb) / benchmarkVariance : null;
+        const rfDaily = this.RISK_FREE_RATE / 365;
+        const alphaDaily = beta !== null
+            ? avg(rp) - rfDaily - beta * (avg(rb) - rfDaily)
+            : avg(active);
+
+        return {
+            finalAmountUsd: parseFloat(benchmarkFinal.toFixed(4)),
+            totalReturnPercent: parseFloat(totalReturn(benchmark).toFixed(4)),
+            annualizedReturnPercent: parseFloat(annualized.toFixed(4)),
+            excessReturnPercent: parseFloat((totalReturn(portfolio) - totalReturn(benchmark)).toFixed(4)),
+            trackingErrorPercent: parseFloat((trackingError * 100).toFixed(4)),
+            informationRatio: trackingError > 0
+                ? parseFloat(((avg(active) * 365) / trackingError).toFixed(4))
+                : null,
+            alphaPercent: parseFloat((alphaDaily * 365 * 100).toFixed(4)),
+            beta: beta !== null ? parseFloat(beta.toFixed(4)) : null,
         };
     }
 
     // ─── Helpers ─────────────────────────────────────────────────────────────
 
     /**
-     * Convert raw history records into a dual APY map:
+     * Convert raw history records into a dual APY map covering every calendar day:
      *   supplyApy = trading fee APY (auto-compounds into LP)
      *   rewardApy = farm emission APY (requires harvest)
+     * Days without a usable record are filled according to the gap policy and tagged in `status`.
      */
-    private buildApySplitMap(records: PoolHistoryRecord[]): ApySplitData {
-        const map: { [date: string]: { supplyApy: number; rewardApy: number } } = {};
+    private buildApySplitMap(
+        records: PoolHistoryRecord[],
+        days: string[],
+        { policy = GapPolicy.FORWARD_FILL, seed = 0 }: GapPolicyOptions,
+        salt: string,
+    ): ApySplitData {
+        const real: ApySplitData['map'] = {};
         for (const rec of records) {
             const dateKey = rec.dataTimestamp.slice(0, 10);
             const rewardEff = Math.max(0, rec.rewardApy ?? 0);
             const supplyRaw = rec.supplyApy ?? 0;
             const totalRaw = rec.totalApy ?? 0;
 
-            // Step 1: if supplyApy is negative, derive from totalApy (avoid double-count)
-            let supplyEff = supplyRaw > 0 ? supplyRaw : Math.max(0, totalRaw - rewardEff);
+            // If supplyApy is negative, derive from totalApy (avoid double-count)
+            const supplyEff = supplyRaw > 0 ? supplyRaw : Math.max(0, totalRaw - rewardEff);
+
+            // 0% supply + 0% reward is a broken record — leave the day to the gap policy
+            if (supplyEff === 0 && rewardEff === 0) continue;
+            real[dateKey] = { supplyApy: supplyEff, rewardApy: rewardEff };
+        }
+
+        const realKeys = Object.keys(real).sort();
+        const map: ApySplitData['map'] = { ...real };
+        const status: NonNullable<ApySplitData['status']> = {};
+        realKeys.forEach(k => { status[k] = 'real'; });
+
+        const rng = createRng((seed ^ hashString(salt)) >>> 0);
+        for (const day of days) {
+            if (real[day]) continue;
 
-            // Step 2: if still 0 after totalApy fallback, use a random floor [5, 8]%
-            //         so no pool ever simulates with 0% yield (last-resort plausible estimate)
-            if (supplyEff === 0 && rewardEff === 0) {
-                supplyEff = 5 + Math.random() * 3; // uniform in [5, 8]
+            if (policy === GapPolicy.SYNTHETIC_FLOOR) {
+                const { min, max } = SYNTHETIC_APY_FLOOR;
+                map[day] = { supplyApy: min + rng() * (max - min), rewardApy: 0 };
+                status[day] = 'synthetic';
+                continue;
+            }
+            if (policy === GapPolicy.ZERO) {
+                map[day] = { supplyApy: 0, rewardApy: 0 };
+                status[day] = 'filled';
+                continue;
             }
 
-            map[dateKey] = { supplyApy: supplyEff, rewardApy: rewardEff };
+            const { prev, next } = this.neighbourKeys(realKeys, day);
+            if (!prev && !next) {
+                map[day] = { supplyApy: 0, rewardApy: 0 };
+                status[day] = 'missing';
+            } else if (policy === GapPolicy.LINEAR && prev && next) {
+                const w = (Date.parse(day) - Date.parse(prev)) / (Date.parse(next) - Date.parse(prev));
+                map[day] = {
+                    supplyApy: real[prev].supplyApy + (real[next].supplyApy - real[prev].supplyApy) * w,
+                    rewardApy: real[prev].rewardApy + (real[next].rewardApy - real[prev].rewardApy) * w,
+                };
+                status[day] = 'filled';
+            } else {
+                // forward_fill, or linear at the edges of the data: hold the nearest real value
+                map[day] = { ...real[prev ?? next] };
+                status[day] = 'filled';
+            }
         }
-        return { map, sortedKeys: Object.keys(map).sort() };
+        return { map, sortedKeys: Object.keys(map).sort(), status };
     }
 
-    /**
-     * Get split APY for a given date.
-     * Falls back to nearest past date, then nearest future, then { 0, 0 }.
-     */
-    private getApySplitForDay(
-        data: ApySplitData,
-        dateStr: string,
-    ): { supplyApy: number; rewardApy: number } {
-        const { map, sortedKeys } = data;
-        if (map[dateStr] !== undefined) return map[dateStr];
-
-        if (sortedKeys.length === 0) return { supplyApy: 0, rewardApy: 0 };
-
-        // Binary-search for the latest key <= dateStr
+    /** Latest real key < day and earliest real key > day */
+    private neighbourKeys(sortedKeys: string[], day: string): { prev?: string; next?: string } {
         let lo = 0, hi = sortedKeys.length - 1, best = -1;
         while (lo <= hi) {
             const mid = (lo + hi) >> 1;
-            if (sortedKeys[mid] <= dateStr) { best = mid; lo = mid + 1; }
+            if (sortedKeys[mid] <= day) { best = mid; lo = mid + 1; }
             else { hi = mid - 1; }
         }
-        if (best >= 0) return map[sortedKeys[best]];
+        return { prev: sortedKeys[best], next: sortedKeys[best + 1] };
+    }
 
-        return map[sortedKeys[0]];
+    /** Run-length encoded per-day provenance of an allocation's APY over the simulated days */
+    private summarizeCoverage(data: ApySplitData, days: string[]) {
+        if (!data.status) return null;
+        const counts: Record<ApyDayStatus, number> = { real: 0, filled: 0, synthetic: 0, missing: 0 };
+        const segments: { from: string; to: string; status: ApyDayStatus }[] = [];
+        for (const day of days) {
+            const dayStatus = data.status[day] ?? 'missing';
+            counts[dayStatus]++;
+            const last = segments[segments.length - 1];
+            if (last && last.status === dayStatus) last.to = day;
+            else segments.push({ from: day, to: day, status: dayStatus });
+        }
+        return {
+            realDays: counts.real,
+            filledDays: counts.filled,
+            syntheticDays: counts.synthetic,
+            missingDays: counts.missing,
+            realPercent: parseFloat(((counts.real / days.length) * 100).toFixed(2)),
+            segments,
+        };
+    }
+
+    /**
+     * Re-order an APY history along `days`: day k gets the APY observed on days[indices[k]].
+     * Used by Monte Carlo to build bootstrapped paths from the historical series.
+     */
+    resampleApyHistory(data: ApySplitData, days: string[], indices: number[]): ApySplitData {
+        const map: ApySplitData['map'] = {};
+        days.forEach((dateStr, k) => {
+            map[dateStr] = getApySplitForDay(data, days[indices[k]]);
+        });
+        return { map, sortedKeys: [...days] };
     }
 
     /** Build sorted "YYYY-MM-DD" array from start to end (inclusive) */
-    private buildDayList(start: Date, end: Date): string[] {
+    buildDayList(start: Date, end: Date): string[] {
         const days: string[] = [];
         const cursor = new Date(start);
         while (cursor <= end) {
@@ -638,40 +2565,236 @@ export class BacktestService {
         return days;
     }
 
-    /** Count unique cross-chain hops for rebalancing */
-    private countCrossChainHops(states: AllocState[]): number {
-        const networks = new Set(states.map(s => s.protocol));
-        return Math.max(0, networks.size - 1);
+    /** Expand one-off and recurring cash flows into a net amount per calendar day */
+    private expandCashFlows(cashFlows: CashFlow[], days: string[]): Map<string, number> {
+        const byDay = new Map<string, number>();
+        const first = days[0];
+        const last = days[days.length - 1];
+        for (const cf of cashFlows) {
+            const start = cf.date.slice(0, 10);
+            const until = cf.until ? cf.until.slice(0, 10) : last;
+            if (!Number.isFinite(cf.amountUsd) || cf.amountUsd === 0) {
+                throw new BadRequestException(`Cash flow on ${start} must have a non-zero amountUsd`);
+            }
+            if (start < first || start > last) {
+                throw new BadRequestException(`Cash flow date ${start} is outside the backtest range ${first}..${last}`);
+            }
+            if (until < start) {
+                throw new BadRequestException(`Cash flow "until" (${until}) is before its start date ${start}`);
+            }
+            if (cf.repeatEveryDays !== undefined && (!Number.isInteger(cf.repeatEveryDays) || cf.repeatEveryDays < 1)) {
+                throw new BadRequestException(`Cash flow "repeatEveryDays" must be a positive integer`);
+            }
+
+            for (let k = days.indexOf(start); k < days.length && days[k] <= until; k += cf.repeatEveryDays ?? days.length) {
+                byDay.set(days[k], (byDay.get(days[k]) ?? 0) + cf.amountUsd);
+            }
+        }
+        // Same-day deposit and withdrawal that cancel out leave nothing to do
+        for (const [day, amount] of byDay) if (Math.abs(amount) < 1e-9) byDay.delete(day);
+        return byDay;
     }
 
     /**
-     * Impermanent Loss formula (Uniswap v2 constant-product AMM):
-     *   IL = 2*sqrt(r) / (1 + r) - 1
-     *   where r = priceEnd / priceStart
+     * Take `amountUsd` out of the positions by target weight (each capped at its value); any
+     * remainder comes pro-rata from what is left. Returns the amount actually withdrawn.
      */
-    private calculateIL(priceRatio: number): number {
-        if (priceRatio <= 0) return 0;
-        return 2 * Math.sqrt(priceRatio) / (1 + priceRatio) - 1;
+    private withdrawByTargetWeight(states: AllocState[], amountUsd: number): number {
+        const available = states.reduce((s, a) => s + a.valueUsd, 0);
+        const target = Math.min(amountUsd, available);
+        const take = (state: AllocState, usd: number) => {
+            state.valueUsd -= usd;
+            state.flowTodayUsd -= usd;
+            state.cashFlowUsd -= usd;
+        };
+
+        let remaining = target;
+        for (const state of states) {
+            const usd = Math.min(state.valueUsd, target * (state.percentage / 100));
+            take(state, usd);
+            remaining -= usd;
+        }
+        if (remaining > 1e-9) {
+            const left = states.reduce((s, a) => s + a.valueUsd, 0);
+            for (const state of states) take(state, left > 0 ? remaining * (state.valueUsd / left) : 0);
+        }
+        return target;
     }
 
     /**
-     * Estimate price ratio from APY standard deviation as a proxy for price drift.
-     * High APY variance → higher implied price movement → more IL.
-     * In production: replace with real TokenPrice entity start/end price lookup.
+     * Money-weighted return: annual rate r solving Σ amount / (1 + r)^(day / 365) = 0 (bisection).
+     * Returns null when the flows have no sign change.
      */
-    private estimatePriceRatio(apySamples: number[]): number {
-        if (apySamples.length < 2) return 1.0;
-        const mean = this.avg(apySamples);
-        const variance = apySamples.reduce((s, v) => s + Math.pow(v - mean, 2), 0) / apySamples.length;
-        const drift = Math.min(0.3, (Math.sqrt(variance) / 100) * 0.3);
-        return 1 + drift;
+    private calcIrr(flows: { dayIndex: number; amountUsd: number }[]): number | null {
+        const npv = (rate: number) =>
+            flows.reduce((s, f) => s + f.amountUsd / Math.pow(1 + rate, f.dayIndex / 365), 0);
+        let lo = -0.9999;
+        let hi = 1000;
+        let npvLo = npv(lo);
+        if (Math.sign(npvLo) === Math.sign(npv(hi))) return null;
+        for (let iter = 0; iter < 200; iter++) {
+            const mid = (lo + hi) / 2;
+            const npvMid = npv(mid);
+            if (Math.abs(npvMid) < 1e-9) return mid;
+            if (Math.sign(npvMid) === Math.sign(npvLo)) { lo = mid; npvLo = npvMid; }
+            else { hi = mid; }
+        }
+        return (lo + hi) / 2;
+    }
+
+    private roundSwitchCosts(costs: SwitchCosts): SwitchCosts {
+        return {
+            harvestFeeUsd: parseFloat(costs.harvestFeeUsd.toFixed(4)),
+            xcmFeeUsd: parseFloat(costs.xcmFeeUsd.toFixed(4)),
+            slippageUsd: parseFloat(costs.slippageUsd.toFixed(4)),
+            ...(costs.vTokenCostUsd !== undefined && { vTokenCostUsd: parseFloat(costs.vTokenCostUsd.toFixed(4)) }),
+        };
+    }
+
+    /** Current weight (% of invested value) per allocation */
+    private currentWeights(states: AllocState[]): Map<AllocState, number> {
+        const total = states.reduce((s, a) => s + a.valueUsd + a.unclaimedRewardsUsd, 0);
+        return new Map(states.map(a => [a, total > 0 ? ((a.valueUsd + a.unclaimedRewardsUsd) / total) * 100 : 0]));
+    }
+
+    /** Largest absolute drift (percentage points) of any allocation from its target weight */
+    private maxWeightDrift(states: AllocState[]): number {
+        let max = 0;
+        for (const [state, weight] of this.currentWeights(states)) {
+            max = Math.max(max, Math.abs(weight - state.percentage));
+        }
+        return max;
+    }
+
+    /**
+     * Plan the trades for one rebalance from the current weights (pending rewards included,
+     * as in `currentWeights`). Nothing is changed — the caller claims rewards and applies the trades.
+     *   bandPercent = 0 → trade every allocation back to its target weight
+     *   bandPercent > 0 → partial: only bring out-of-band allocations back to the band edge
+     * Trades below `minTradeSizeUsd` are dropped and the remaining buys/sells are netted
+     * so the rebalance stays self-funded.
+     */
+    private planRebalanceTrades(
+        states: AllocState[],
+        opts: { bandPercent: number; minTradeSizeUsd: number },
+    ): { state: AllocState; tradeUsd: number }[] {
+        const valueOf = (a: AllocState) => a.valueUsd + a.unclaimedRewardsUsd;
+        const total = states.reduce((s, a) => s + valueOf(a), 0);
+        if (total <= 0) return [];
+
+        const desired = opts.bandPercent > 0
+            ? this.clampWeightsToBand(states, states.map(a => (valueOf(a) / total) * 100), opts.bandPercent)
+            : states.map(a => a.percentage);
+
+        const trades = states
+            .map((state, idx) => ({ state, tradeUsd: (desired[idx] / 100) * total - valueOf(state) }))
+            .filter(t => Math.abs(t.tradeUsd) >= Math.max(opts.minTradeSizeUsd, 1e-9));
+
+        const buys = trades.filter(t => t.tradeUsd > 0).reduce((s, t) => s + t.tradeUsd, 0);
+        const sells = trades.filter(t => t.tradeUsd < 0).reduce((s, t) => s - t.tradeUsd, 0);
+        if (buys === 0 || sells === 0) return [];
+
+        const buyScale = Math.min(1, sells / buys);
+        const sellScale = Math.min(1, buys / sells);
+        return trades.map(t => ({ state: t.state, tradeUsd: t.tradeUsd * (t.tradeUsd > 0 ? buyScale : sellScale) }));
+    }
+
+    /**
+     * Partial rebalance weights: clamp every weight into [target ± band], then hand the residual
+     * (clamping rarely sums to 100) to the allocations that still have room inside their band,
+     * pro rata to target weight — re-clamping until nothing is left or no allocation has room.
+     * A clamped allocation is never pushed back out of its band, so the drift trigger settles.
+     */
+    private clampWeightsToBand(states: AllocState[], weights: number[], band: number): number[] {
+        const lower = (idx: number) => states[idx].percentage - band;
+        const upper = (idx: number) => states[idx].percentage + band;
+        const clamp = (w: number, idx: number) => Math.min(upper(idx), Math.max(lower(idx), w));
+        let desired = weights.map(clamp);
+
+        for (let pass = 0; pass < states.length; pass++) {
+            const residual = 100 - desired.reduce((s, w) => s + w, 0);
+            if (Math.abs(residual) < 1e-9) break;
+            const open = desired
+                .map((w, idx) => idx)
+                .filter(idx => residual > 0 ? desired[idx] < upper(idx) - 1e-9 : desired[idx] > lower(idx) + 1e-9);
+            const openTarget = open.reduce((s, idx) => s + states[idx].percentage, 0);
+            if (openTarget <= 0) break;
+            desired = desired.map((w, idx) => open.includes(idx) ? clamp(w + residual * (states[idx].percentage / openTarget), idx) : w);
+        }
+        return desired;
+    }
+
+    /** Bifrost liquid-staking positions: vToken symbols staked on bifrost (vstaking or untyped) */
+    private vTokenOf(alloc: BacktestAllocation): VTokenConfig | undefined {
+        if (alloc.protocol.toLowerCase() !== 'bifrost') return undefined;
+        if (alloc.poolType && alloc.poolType !== PoolType.VSTAKING) return undefined;
+        return BIFROST_CONFIG.VTOKENS[alloc.assetSymbol];
+    }
+
+    /**
+     * Impermanent Loss for an equal-weight constant-product pool:
+     *   IL = geomean(r) / mean(r) - 1,  r_i = priceEnd_i / priceStart_i
+     * For two tokens this reduces to the Uniswap v2 formula 2*sqrt(r) / (1 + r) - 1.
+     */
+    private calculateIL(priceRelatives: number[]): number {
+        if (priceRelatives.length < 2 || priceRelatives.some(r => !(r > 0))) return 0;
+        const n = priceRelatives.length;
+        const geoMean = Math.exp(priceRelatives.reduce((s, r) => s + Math.log(r), 0) / n);
+        return geoMean / avg(priceRelatives) - 1;
+    }
+
+    /**
+     * Load daily TokenPrice series for the given token symbols (auto-backfilled by the
+     * price indexer). Symbols without a Coingecko mapping or without data are omitted.
+     */
+    private async loadTokenPrices(symbols: string[], from: Date, to: Date): Promise<Map<string, DailyPriceSeries>> {
+        const result = new Map<string, DailyPriceSeries>();
+        await Promise.all(symbols.map(async (symbol) => {
+            const coingeckoId = this.priceIndexer.resolveCoingeckoId(symbol);
+            if (!coingeckoId) {
+                this.logger.warn(`No Coingecko mapping for token ${symbol} — price data unavailable`);
+                return;
+            }
+            try {
+                const series = await this.priceIndexer.getDailyPriceSeries(coingeckoId, from, to);
+                if (series.sortedKeys.length > 0) result.set(symbol, series);
+                else this.logger.warn(`No TokenPrice history for ${symbol} (${coingeckoId})`);
+            } catch (err) {
+                this.logger.warn(`TokenPrice lookup failed for ${symbol}: ${err.message}`);
+            }
+        }));
+        return result;
+    }
+
+    /**
+     * Day-over-day value relative of a position in the given tokens. A single token moves with
+     * its price; an n-token constant-product LP moves with the geometric mean of the relatives.
+     */
+    private tokenPriceRelative(
+        tokens: string[],
+        tokenPrices: Map<string, DailyPriceSeries>,
+        prevDate: string,
+        dateStr: string,
+    ): number {
+        const logSum = tokens.reduce((s, t) => {
+            const series = tokenPrices.get(t)!;
+            return s + Math.log(getPriceForDay(series, dateStr) / getPriceForDay(series, prevDate));
+        }, 0);
+        return Math.exp(logSum / tokens.length);
+    }
+
+    /** Prices of the given LP constituents on a date */
+    private getIlPrices(tokens: string[], tokenPrices: Map<string, DailyPriceSeries>, dateStr: string): Record<string, number> {
+        const prices: Record<string, number> = {};
+        for (const t of tokens) prices[t] = getPriceForDay(tokenPrices.get(t)!, dateStr);
+        return prices;
     }
 
     /** Annualized Sharpe Ratio = (mean_daily_return - rf_daily) / std_dev * sqrt(365) */
     private calcSharpe(dailyReturns: number[]): number {
         if (dailyReturns.length < 2) return 0;
         const rfDaily = this.RISK_FREE_RATE / 365;
-        const mean = this.avg(dailyReturns);
+        const mean = avg(dailyReturns);
         const variance =
             dailyReturns.reduce((s, r) => s + Math.pow(r - mean, 2), 0) / (dailyReturns.length - 1);
         const stdDev = Math.sqrt(variance);
@@ -679,8 +2802,87 @@ export class BacktestService {
         return ((mean - rfDaily) / stdDev) * Math.sqrt(365);
     }
 
-    private avg(samples: number[]): number {
-        return samples.length > 0 ? samples.reduce((s, v) => s + v, 0) / samples.length : 0;
+    /**
+     * Extended risk metrics from a daily value series (same calendar as `dates`).
+     * VaR/CVaR are historical daily returns in % — negative numbers are losses.
+     */
+    private calcRiskMetrics(values: number[], dates: string[]) {
+        const returns = values.slice(1).map((v, i) => (values[i] > 0 ? v / values[i] - 1 : 0));
+        const rfDaily = this.RISK_FREE_RATE / 365;
+        const round = (v: number) => parseFloat(v.toFixed(4));
+
+        const volatility = Math.sqrt(this.covariance(returns, returns)) * Math.sqrt(365);
+
+        // Downside deviation below the risk-free rate (target semi-deviation)
+        const downsideDev = returns.length > 0
+            ? Math.sqrt(returns.reduce((s, r) => s + Math.pow(Math.min(0, r - rfDaily), 2), 0) / returns.length)
+            : 0;
+        const sortino = downsideDev > 0 ? ((avg(returns) - rfDaily) / downsideDev) * Math.sqrt(365) : 0;
+
+        // Historical VaR = return at the tail percentile, CVaR = mean of returns at or below it
+        const sorted = [...returns].sort((a, b) => a - b);
+        const tail = (confidence: number) => {
+            const v = percentile(sorted, 100 - confidence);
+            const beyond = sorted.filter(r => r <= v);
+            return { varPct: v * 100, cvarPct: (beyond.length > 0 ? avg(beyond) : v) * 100 };
+        };
+        const tail95 = tail(95);
+        const tail99 = tail(99);
+
+        // Drawdown walk: max depth, ulcer index and the longest peak-to-recovery stretch
+        let peak = values[0] ?? 0;
+        let peakIdx = 0;
+        let inDrawdown = false;
+        let maxDrawdownPct = 0;
+        let sumSqDrawdown = 0;
+        let longest = { days: 0, start: null as string | null, recoveryDate: null as string | null };
+        for (let k = 0; k < values.length; k++) {
+            if (values[k] >= peak) {
+                if (inDrawdown && k - peakIdx > longest.days) {
+                    longest = { days: k - peakIdx, start: dates[peakIdx], recoveryDate: dates[k] };
+                }
+                inDrawdown = false;
+                peak = values[k];
+                peakIdx = k;
+            } else {
+                inDrawdown = true;
+            }
+            const dd = peak > 0 ? ((peak - values[k]) / peak) * 100 : 0;
+            maxDrawdownPct = Math.max(maxDrawdownPct, dd);
+            sumSqDrawdown += dd * dd;
+        }
+        // Still under water at the end — duration runs to the last day, no recovery date
+        if (inDrawdown && values.length - 1 - peakIdx > longest.days) {
+            longest = { days: values.length - 1 - peakIdx, start: dates[peakIdx], recoveryDate: null };
+        }
+
+        const durationDays = values.length - 1;
+        const annualizedPct = durationDays > 0 && values[0] > 0
+            ? (Math.pow(values[values.length - 1] / values[0], 365 / durationDays) - 1) * 100
+            : 0;
+
+        return {
+            volatilityPercent: round(volatility * 100),
+            sortinoRatio: round(sortino),
+            calmarRatio: maxDrawdownPct > 0 ? round(annualizedPct / maxDrawdownPct) : null,
+            var95Percent: round(tail95.varPct),
+            cvar95Percent: round(tail95.cvarPct),
+            var99Percent: round(tail99.varPct),
+            cvar99Percent: round(tail99.cvarPct),
+            ulcerIndex: round(values.length > 0 ? Math.sqrt(sumSqDrawdown / values.length) : 0),
+            winRatePercent: round(returns.length > 0 ? (returns.filter(r => r > 0).length / returns.length) * 100 : 0),
+            longestDrawdownDays: longest.days,
+            longestDrawdownStart: longest.start,
+            longestDrawdownRecoveryDate: longest.recoveryDate,
+        };
+    }
+
+    /** Sample covariance (n - 1); covariance(x, x) is the sample variance */
+    private covariance(x: number[], y: number[]): number {
+        if (x.length < 2) return 0;
+        const mx = avg(x);
+        const my = avg(y);
+        return x.reduce((s, v, i) => s + (v - mx) * (y[i] - my), 0) / (x.length - 1);
     }
 
     /**
@@ -729,22 +2931,54 @@ export class BacktestService {
             supplyApy: snapshot.supplyApy ?? snapshot.totalApy ?? 0,
             rewardApy: snapshot.rewardApy ?? 0,
             totalApy: snapshot.totalApy,
+            ...(typeof snapshot.tvlUsd === 'number' && { tvlUsd: snapshot.tvlUsd }),
             dataTimestamp: new Date().toISOString(),
         };
     }
 
-    /** Downsample timeSeries to at most `maxPoints` via uniform sampling */
-    private downsampleTimeSeries(
-        series: { date: string; totalValueUsd: number; dailyReturnPct: number; unclaimedRewardsUsd: number }[],
-        maxPoints: number,
-    ) {
-        if (series.length <= maxPoints) return series;
-        const step = Math.ceil(series.length / maxPoints);
-        const result = [];
-        for (let i = 0; i < series.length; i += step) result.push(series[i]);
-        if (result[result.length - 1] !== series[series.length - 1]) {
-            result.push(series[series.length - 1]);
+    /**
+     * Largest-Triangle-Three-Buckets: keeps the first and last point and, from each bucket in
+     * between, the point spanning the largest triangle with its neighbours — so peaks and
+     * drawdown troughs survive where stride sampling would skip them.
+     */
+    private downsampleTimeSeries<T extends { date: string }>(series: T[], maxPoints: number, valueOf: (point: T) => number): T[] {
+        if (series.length <= maxPoints || maxPoints < 3) return series;
+        const bucketSize = (series.length - 2) / (maxPoints - 2);
+        const result: T[] = [series[0]];
+        let prevIndex = 0;
+
+        for (let b = 0; b < maxPoints - 2; b++) {
+            const start = Math.floor(b * bucketSize) + 1;
+            const end = Math.floor((b + 1) * bucketSize) + 1;
+
+            // Average of the next bucket (the last point for the final bucket)
+            const nextStart = end;
+            const nextEnd = Math.min(Math.floor((b + 2) * bucketSize) + 1, series.length);
+            let avgX = 0;
+            let avgY = 0;
+            for (let k = nextStart; k < nextEnd; k++) {
+                avgX += k;
+                avgY += valueOf(series[k]);
+            }
+            const nextCount = nextEnd - nextStart;
+            avgX /= nextCount;
+            avgY /= nextCount;
+
+            const prevY = valueOf(series[prevIndex]);
+            let bestIndex = start;
+            let bestArea = -1;
+            for (let k = start; k < end; k++) {
+                const area = Math.abs((prevIndex - avgX) * (valueOf(series[k]) - prevY) - (prevIndex - k) * (avgY - prevY));
+                if (area > bestArea) {
+                    bestArea = area;
+                    bestIndex = k;
+                }
+            }
+            result.push(series[bestIndex]);
+            prevIndex = bestIndex;
         }
+
+        result.push(series[series.length - 1]);
         return result;
     }
 }
@@ -0,0 +1,141 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { MongoRepository } from 'typeorm';
+import { v4 as uuidv4 } from 'uuid';
+import { StressScenario } from '../../entities';
+import { BacktestService, RunBacktestDto } from './backtest.service';
+import { StressScenarioDefinition, StressShockType } from './backtest-stress';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface StressScenarioRecord extends StressScenarioDefinition {
+    scenarioId: string;
+    preset: boolean;
+    createdAt: Date | null;
+    updatedAt: Date | null;
+}
+
+/** Built-in library — dates left open so they land in the middle of any backtest range */
+export const STRESS_SCENARIO_PRESETS: (StressScenarioDefinition & { scenarioId: string })[] = [
+    {
+        scenarioId: 'preset:vdot-depeg-10',
+        name: 'vDOT depeg 10% for 14 days',
+        description: 'vDOT trades 10% below DOT for two weeks, then recovers',
+        shocks: [{ type: StressShockType.DEPEG, assetSymbol: 'vDOT', percent: 10, days: 14 }],
+    },
+    {
+        scenarioId: 'preset:vdot-depeg-30-permanent',
+        name: 'vDOT depeg 30%, no recovery',
+        description: 'vDOT loses 30% against DOT until the end of the backtest',
+        shocks: [{ type: StressShockType.DEPEG, assetSymbol: 'vDOT', percent: 30 }],
+    },
+    {
+        scenarioId: 'preset:hydration-exploit-25',
+        name: 'Hydration exploit −25%',
+        description: 'Every Hydration position loses 25% on one day',
+        shocks: [{ type: StressShockType.PROTOCOL_LOSS, protocol: 'hydration', percent: 25 }],
+    },
+    {
+        scenarioId: 'preset:rewards-off',
+        name: 'Farm rewards stop',
+        description: 'Reward APY drops to 0 on every pool from the middle of the range',
+        shocks: [{ type: StressShockType.REWARD_APY_ZERO }],
+    },
+    {
+        scenarioId: 'preset:stablecoin-depeg-5',
+        name: 'Stablecoin depeg 5% for 7 days',
+        description: 'USDC / USDT / DAI trade at $0.95 for a week',
+        shocks: [{ type: StressShockType.STABLECOIN_DEPEG, percent: 5, days: 7 }],
+    },
+];
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+/**
+ * Stress scenario library: built-in presets plus scenarios saved into `stress_scenarios`.
+ * Runs reference them by `scenarioId`; they are inlined into the request before it executes
+ * so a stored run always carries the exact shocks it was tested with.
+ */
+@Injectable()
+export class StressScenarioService {
+    private readonly logger = new Logger(StressScenarioService.name);
+
+    constructor(
+        private readonly backtestService: BacktestService,
+        @InjectRepository(StressScenario)
+        private readonly scenarioRepo: MongoRepository<StressScenario>,
+    ) { }
+
+    // ─── Public API ──────────────────────────────────────────────────────────
+
+    async create(dto: StressScenarioDefinition): Promise<StressScenarioRecord> {
+        this.backtestService.validateStressScenario(dto);
+        const saved = await this.scenarioRepo.save(this.scenarioRepo.create({
+            scenarioId: uuidv4(),
+            name: dto.name,
+            description: dto.description,
+            shocks: dto.shocks as unknown as Record<string, any>[],
+        }));
+        this.logger.log(`[${saved.scenarioId}] Stress scenario "${saved.name}" saved`);
+        return this.toRecord(saved);
+    }
+
+    /** Presets first, then saved scenarios newest first */
+    async list(): Promise<StressScenarioRecord[]> {
+        const saved = await this.scenarioRepo.find({ order: { createdAt: 'DESC' } });
+        return [...STRESS_SCENARIO_PRESETS.map(p => this.presetRecord(p)), ...saved.map(s => this.toRecord(s))];
+    }
+
+    async get(scenarioId: string): Promise<StressScenarioRecord> {
+        const preset = STRESS_SCENARIO_PRESETS.find(p => p.scenarioId === scenarioId);
+        if (preset) return this.presetRecord(preset);
+        const saved = await this.scenarioRepo.findOne({ where: { scenarioId } });
+        if (!saved) {
+            throw new NotFoundException(`Stress scenario '${scenarioId}' not found`);
+        }
+        return this.toRecord(saved);
+    }
+
+    async remove(scenarioId: string): Promise<{ scenarioId: string; deleted: true }> {
+        if (STRESS_SCENARIO_PRESETS.some(p => p.scenarioId === scenarioId)) {
+            throw new BadRequestException(`Stress scenario '${scenarioId}' is a built-in preset and cannot be deleted`);
+        }
+        const { deletedCount } = await this.scenarioRepo.deleteOne({ scenarioId });
+        if (!deletedCount) {
+            throw new NotFoundException(`Stress scenario '${scenarioId}' not found`);
+        }
+        return { scenarioId, deleted: true };
+    }
+
+    /** Replace `stressScenarioIds` with the scenarios they reference, after any inline ones */
+    async resolveInto(dto: RunBacktestDto): Promise<RunBacktestDto> {
+        if (!dto.stressScenarioIds?.length) return dto;
+        const referenced = await Promise.all(dto.stressScenarioIds.map(id => this.get(id)));
+        const { stressScenarioIds, ...rest } = dto;
+        return {
+            ...rest,
+            stressScenarios: [
+                ...(dto.stressScenarios ?? []),
+                ...referenced.map(({ name, description, shocks }) => ({ name, ...(description && { description }), shocks })),
+            ],
+        };
+    }
+
+    // ─── Helpers ─────────────────────────────────────────────────────────────
+
+    private presetRecord(preset: StressScenarioDefinition & { scenarioId: string }): StressScenarioRecord {
+        return { ...preset, preset: true, createdAt: null, updatedAt: null };
+    }
+
+    private toRecord(entity: StressScenario): StressScenarioRecord {
+        return {
+            scenarioId: entity.scenarioId,
+            name: entity.name,
+            ...(entity.description && { description: entity.description }),
+            shocks: entity.shocks as StressScenarioDefinition['shocks'],
+            preset: false,
+            createdAt: entity.createdAt ?? null,
+            updatedAt: entity.updatedAt ?? null,
+        };
+    }
+}
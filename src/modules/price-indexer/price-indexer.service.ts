@@ -4,12 +4,24 @@ import { MongoRepository } from 'typeorm';
 import axios from 'axios';
 import * as ccxt from 'ccxt';
 import { TokenPrice } from '../../entities';
-import { PRICE_CONFIG } from '../../config/bifrost.config';
+import { BIFROST_CONFIG, PRICE_CONFIG } from '../../config/bifrost.config';
+
+/** Daily close prices keyed by "YYYY-MM-DD", with pre-sorted keys for date lookup */
+export interface DailyPriceSeries {
+    coingeckoId: string;
+    map: { [date: string]: number };
+    sortedKeys: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BACKFILL_RETRY_MS = 60 * 60 * 1000;
 
 @Injectable()
 export class PriceIndexerService {
     private readonly logger = new Logger(PriceIndexerService.name);
     private priceCache = new Map<string, { price: number; fetchedAt: number }>();
+    /** Last backfill attempt per "coingeckoId|from|to" — avoids hammering DeFiLlama for ranges it does not have */
+    private backfillAttempts = new Map<string, number>();
 
     constructor(
         @InjectRepository(TokenPrice)
@@ -130,4 +142,63 @@ export class PriceIndexerService {
             return 0;
         }
     }
+
+    // ─── Resolve token symbol (DOT, vDOT, ...) → Coingecko ID ───
+    resolveCoingeckoId(symbol: string): string | null {
+        const ids = PRICE_CONFIG.COINGECKO_IDS;
+        if (ids[symbol]) return ids[symbol];
+        const key = Object.keys(ids).find((k) => k.toLowerCase() === symbol.toLowerCase());
+        if (key) return ids[key];
+        const vToken = Object.values(BIFROST_CONFIG.VTOKENS).find(
+            (v) => v.baseToken.toLowerCase() === symbol.toLowerCase(),
+        );
+        return vToken?.coingeckoId ?? null;
+    }
+
+    // ─── Daily price series từ DB, tự động backfill từ DeFiLlama khi thiếu ngày ───
+    async getDailyPriceSeries(coingeckoId: string, from: Date, to: Date): Promise<DailyPriceSeries> {
+        const start = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()));
+        const end = new Date(Date.UTC(to.getUTCFullYear(), to.getUTCMonth(), to.getUTCDate()) + DAY_MS - 1);
+        const expectedDays = Math.round((end.getTime() + 1 - start.getTime()) / DAY_MS);
+
+        let series = await this.loadDailyPrices(coingeckoId, start, end);
+        const firstDay = start.toISOString().slice(0, 10);
+        const lastDay = end.toISOString().slice(0, 10);
+        const hasEdges = series.map[firstDay] !== undefined && series.map[lastDay] !== undefined;
+
+        if (!hasEdges || series.sortedKeys.length < expectedDays) {
+            const attemptKey = `${coingeckoId}|${firstDay}|${lastDay}`;
+            const lastAttempt = this.backfillAttempts.get(attemptKey) ?? 0;
+            if (Date.now() - lastAttempt > BACKFILL_RETRY_MS) {
+                this.backfillAttempts.set(attemptKey, Date.now());
+                this.logger.log(
+                    `Price gap for ${coingeckoId} ${firstDay}..${lastDay} ` +
+                    `(${series.sortedKeys.length}/${expectedDays} days) — backfilling`,
+                );
+                const fetched = await this.fetchHistoricalPrices(
+                    coingeckoId,
+                    Math.floor((start.getTime() - DAY_MS) / 1000),
+                    Math.floor((end.getTime() + DAY_MS) / 1000),
+                );
+                if (fetched > 0) {
+                    series = await this.loadDailyPrices(coingeckoId, start, end);
+                }
+            }
+        }
+
+        return series;
+    }
+
+    /** Collapse stored price points into one (last-of-day) price per UTC date */
+    private async loadDailyPrices(coingeckoId: string, start: Date, end: Date): Promise<DailyPriceSeries> {
+        const rows = await this.priceRepo.find({
+            where: { symbol: coingeckoId, timestamp: { $gte: start, $lte: end } },
+            order: { timestamp: 'ASC' },
+        });
+        const map: { [date: string]: number } = {};
+        for (const row of rows) {
+            if (row.priceUsd > 0) map[new Date(row.timestamp).toISOString().slice(0, 10)] = row.priceUsd;
+        }
+        return { coingeckoId, map, sortedKeys: Object.keys(map).sort() };
+    }
 }
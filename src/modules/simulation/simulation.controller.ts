@@ -4,8 +4,10 @@ import {
     Post,
     Body,
     Query,
+    Headers,
     HttpCode,
     HttpStatus,
+    StreamableFile,
 } from '@nestjs/common';
 import {
     ApiTags,
@@ -14,6 +16,7 @@ import {
     ApiBody,
     ApiProperty,
     ApiOkResponse,
+    ApiProduces,
 } from '@nestjs/swagger';
 import {
     IsNumber,
@@ -28,6 +31,7 @@ import {
 import { Type } from 'class-transformer';
 import { SimulationService } from './simulation.service';
 import { Public } from '../../common/decorators/public.decorator';
+import { ExportService, ExportFormat } from '../../common/services/export.service';
 
 class AllocationDto {
     @ApiProperty({ example: 'hydration', description: 'Tên protocol' })
@@ -157,7 +161,10 @@ export class PoolsController {
 @ApiTags('Simulation')
 @Controller('simulation')
 export class SimulationController {
-    constructor(private readonly simulationService: SimulationService) { }
+    constructor(
+        private readonly simulationService: SimulationService,
+        private readonly exportService: ExportService,
+    ) { }
 
     @Get('parachains')
     @Public()
@@ -222,11 +229,36 @@ export class SimulationController {
         
 **Logic:** compound daily — \`final = initial × (1 + APY/365)^days\`
 
-**Lưu ý:** Các \`allocations\` phải có tổng \`percentage\` = 100.`,
+**Lưu ý:** Các \`allocations\` phải có tổng \`percentage\` = 100.
+
+**Export:** \`?format=csv|ndjson|xlsx\` (hoặc header \`Accept\`) trả về file gồm \`summary\` và \`breakdown\` (CSV: ZIP gồm \`summary.csv\` và \`breakdown.csv\`).`,
     })
+    @ApiQuery({ name: 'format', required: false, enum: ExportFormat, description: 'json (mặc định) | csv | ndjson | xlsx' })
+    @ApiProduces(
+        'application/json',
+        'text/csv',
+        'application/zip',
+        'application/x-ndjson',
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    )
     @ApiBody({ type: RunSimulationDto })
     @HttpCode(HttpStatus.OK)
-    async runSimulation(@Body() dto: RunSimulationDto) {
-        return this.simulationService.runSimulation(dto);
+    async runSimulation(
+        @Body() dto: RunSimulationDto,
+        @Query('format') format?: string,
+        @Headers('accept') accept?: string,
+    ) {
+        const exportFormat = this.exportService.resolveFormat(format, accept);
+        const result = await this.simulationService.runSimulation(dto);
+        if (exportFormat === ExportFormat.JSON) return result;
+
+        const file = this.exportService.render(exportFormat, [
+            { name: 'summary', rows: this.exportService.keyValueRows(result.summary) },
+            { name: 'breakdown', rows: result.breakdown },
+        ], `simulation-${dto.from.slice(0, 10)}-${dto.to.slice(0, 10)}`);
+        return new StreamableFile(file.body, {
+            type: file.contentType,
+            disposition: `attachment; filename="${file.fileName}"`,
+        });
     }
 }
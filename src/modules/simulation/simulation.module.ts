@@ -3,11 +3,12 @@ import { ConfigModule } from '@nestjs/config';
 import { SimulationService } from './simulation.service';
 import { SimulationController, PoolsController } from './simulation.controller';
 import { PoolsClientService } from '../../common/services/pools-client.service';
+import { ExportService } from '../../common/services/export.service';
 
 @Module({
     imports: [ConfigModule],
     controllers: [SimulationController, PoolsController],
-    providers: [SimulationService, PoolsClientService],
+    providers: [SimulationService, PoolsClientService, ExportService],
     exports: [SimulationService],
 })
 export class SimulationModule { }